@@ -6,13 +6,18 @@ import ToolsPage from "./pages/Tools";
 import AccountPage from "./pages/Account";
 import BottomNav from "./components/BottomNav";
 import AuthPage from "./components/AuthPage";
+import RecoveryKitModal from "./components/RecoveryKitModal";
+import SyncStatus from "./components/SyncStatus";
 import { useAppStore } from "./stores/authStore";
 import PWAService from "./services/pwa";
+import SharedVaultsService from "./services/sharedVaults";
+import AutoLockService from "./services/autoLock";
+import SyncEngineService from "./services/syncEngine";
 import "./App.css";
 
 function App() {
   const [activePage, setActivePage] = useState('home');
-  const { user, isUnlocked, vaults, selectVault, createVault, createItem } = useAppStore();
+  const { user, isUnlocked, vaults, selectVault, createVault, createItem, pendingRecoveryKey, dismissRecoveryKit } = useAppStore();
   const [showAddModal, setShowAddModal] = useState(false);
   const [modalMode, setModalMode] = useState<'menu' | 'vault' | 'item'>('menu');
   const [formData, setFormData] = useState({
@@ -25,6 +30,26 @@ function App() {
   const [formErrors, setFormErrors] = useState<{[key: string]: string}>({});
   const [loading, setLoading] = useState(false);
 
+  useEffect(() => {
+    return AutoLockService.start({
+      getSettings: () => useAppStore.getState().autoLock,
+      getLastActivity: () => {
+        const { lastActivity } = useAppStore.getState();
+        return lastActivity ? new Date(lastActivity).getTime() : null;
+      },
+      isUnlocked: () => useAppStore.getState().isUnlocked,
+      onActivity: () => useAppStore.getState().updateActivity(),
+      onLock: (reason) => useAppStore.getState().lock(reason),
+    });
+  }, []);
+
+  useEffect(() => {
+    return SyncEngineService.start({
+      onOnline: () => useAppStore.getState().setOnline(true),
+      onOffline: () => useAppStore.getState().setOnline(false),
+    });
+  }, []);
+
   useEffect(() => {
     PWAService.initialize().catch(console.error);
     if (isUnlocked && vaults.length > 0 && !useAppStore.getState().currentVaultId) {
@@ -98,6 +123,10 @@ function App() {
       setFormErrors({ general: 'Please select a vault first' });
       return;
     }
+    if (!SharedVaultsService.canEdit(currentVault)) {
+      setFormErrors({ general: `"${currentVault.name}" is shared with you read-only` });
+      return;
+    }
 
     setLoading(true);
     try {
@@ -146,10 +175,14 @@ function App() {
   return (
     <ThemeProvider>
       <div className="app-container">
+        <SyncStatus />
         <main className="main-content">
           {renderPage()}
         </main>
         <BottomNav activePage={activePage} setActivePage={setActivePage} />
+        {pendingRecoveryKey && (
+          <RecoveryKitModal recoveryKey={pendingRecoveryKey} onClose={dismissRecoveryKit} />
+        )}
         <button
           className="fab"
           onClick={() => setShowAddModal(true)}
@@ -0,0 +1,100 @@
+import { useEffect, useMemo, useState } from "react";
+import { useAppStore, type Vault } from "../stores/authStore";
+import ActivityLogService, { ACTIVITY_LABELS, type ActivityAction, type ActivityEntry } from "../services/activityLog";
+import './ActivityTimeline.css';
+
+interface ActivityTimelineProps {
+  vault: Vault;
+}
+
+const ActivityTimeline = ({ vault }: ActivityTimelineProps) => {
+  const { vaultKeys } = useAppStore();
+  const vaultKey = vaultKeys[vault.id];
+  const [entries, setEntries] = useState<ActivityEntry[]>([]);
+  const [action, setAction] = useState<ActivityAction | ''>('');
+  const [userId, setUserId] = useState('');
+  const [query, setQuery] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!vaultKey) return;
+    let cancelled = false;
+
+    ActivityLogService.getEntries(vault.id, vaultKey)
+      .then(result => {
+        if (!cancelled) setEntries(result);
+      })
+      .catch(err => {
+        console.error('Error loading vault activity:', err);
+        if (!cancelled) setError('Failed to load activity');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => { cancelled = true; };
+  }, [vault.id, vaultKey]);
+
+  // Everyone who appears in the log, for the member filter
+  const members = useMemo(
+    () => [...new Map(entries.map(entry => [entry.userId, entry.email])).entries()],
+    [entries]
+  );
+
+  const visible = ActivityLogService.filter(entries, {
+    action: action || undefined,
+    userId: userId || undefined,
+    query,
+  });
+
+  const handleExport = () => {
+    const csv = ActivityLogService.toCsv(visible);
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `hushkey-activity-${vault.name.replace(/[^\w-]+/g, '_')}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <section className="activity-timeline">
+      <header className="activity-header">
+        <h3>Activity</h3>
+        <button onClick={handleExport} disabled={visible.length === 0}>Export CSV</button>
+      </header>
+
+      <div className="activity-filters">
+        <select value={action} onChange={(e) => setAction(e.target.value as ActivityAction | '')}>
+          <option value="">All actions</option>
+          {(Object.keys(ACTIVITY_LABELS) as ActivityAction[]).map(key => (
+            <option key={key} value={key}>{ACTIVITY_LABELS[key]}</option>
+          ))}
+        </select>
+        <select value={userId} onChange={(e) => setUserId(e.target.value)}>
+          <option value="">All members</option>
+          {members.map(([id, email]) => (
+            <option key={id} value={id}>{email}</option>
+          ))}
+        </select>
+        <input type="text" placeholder="Search activity" value={query} onChange={(e) => setQuery(e.target.value)} />
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+      {loading && <p className="activity-note">Loading...</p>}
+      {!loading && visible.length === 0 && <p className="activity-note">No activity yet.</p>}
+
+      <ul className="activity-list">
+        {visible.map(entry => (
+          <li key={entry.id} className={`activity-entry action-${entry.action}`}>
+            <span className="activity-description">{ActivityLogService.describe(entry)}</span>
+            <span className="activity-meta">{entry.email} · {entry.createdAt.toLocaleString()}</span>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default ActivityTimeline;
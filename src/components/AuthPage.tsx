@@ -1,14 +1,26 @@
 import { useState, useEffect } from "react";
 import { useAppStore } from "../stores/authStore";
+import PinUnlockService from "../services/pinUnlock";
 import './AuthPage.css';
 import { ShieldIcon, LockIcon, KeyIcon, EmailIcon } from './FaviconIcon';
 
 const AuthPage = () => {
-  const { user, isLoading, signIn, signUp, unlockVault } = useAppStore();
+  const store = useAppStore();
+  const { user, isLoading, signIn, signUp, unlockVault, unlockWithPin, recoveryMode, requestAccountRecovery, recoverAccount } = store;
+  const hasPin = PinUnlockService.isConfigured(store);
   const [isLogin, setIsLogin] = useState(true);
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
+  const [pin, setPin] = useState("");
+  const [usePassword, setUsePassword] = useState(false);
+  const [recovering, setRecovering] = useState(recoveryMode);
+  const [recoveryKey, setRecoveryKey] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [requestingRecovery, setRequestingRecovery] = useState(false);
+  const [notice, setNotice] = useState("");
   const [error, setError] = useState("");
+  const [legacyLogin, setLegacyLogin] = useState(false);
+  const showPinUnlock = hasPin && !usePassword && !recovering;
 
   useEffect(() => {
     if (user) {
@@ -18,22 +30,55 @@ const AuthPage = () => {
     }
   }, [user]);
 
+  useEffect(() => {
+    if (recoveryMode) setRecovering(true);
+  }, [recoveryMode]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
     try {
-      if (user) {
+      if (user && recovering) {
+        if (password.length < 8) throw new Error("New master password must be at least 8 characters");
+        if (password !== confirmPassword) throw new Error("Passwords do not match");
+        await recoverAccount(recoveryKey, password);
+      } else if (requestingRecovery) {
+        await requestAccountRecovery(email);
+        setNotice("If an account exists for this email, a recovery link has been sent to it.");
+      } else if (user && showPinUnlock) {
+        await unlockWithPin(pin);
+      } else if (user) {
         await unlockVault(password);
       } else if (isLogin) {
-        await signIn(email, password);
+        await signIn(email, password, legacyLogin);
       } else {
         await signUp(email, password);
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : "An error occurred");
+      setPin("");
     }
   };
 
+  const toggleUnlockMethod = () => {
+    setUsePassword(!usePassword);
+    setError("");
+  };
+
+  const toggleRecovery = () => {
+    setRecovering(!recovering);
+    setPassword("");
+    setConfirmPassword("");
+    setRecoveryKey("");
+    setError("");
+  };
+
+  const toggleRecoveryRequest = () => {
+    setRequestingRecovery(!requestingRecovery);
+    setNotice("");
+    setError("");
+  };
+
   if (user) {
     return (
       <div className="auth-page unlock-page">
@@ -54,28 +99,75 @@ const AuthPage = () => {
             <div className="auth-logo">
               <ShieldIcon size={40} className="logo-icon" />
             </div>
-            <h1 className="auth-title">Welcome Back</h1>
+            <h1 className="auth-title">{recovering ? "Recover Account" : "Welcome Back"}</h1>
             <p className="auth-subtitle">{user.email}</p>
           </div>
           
           <form onSubmit={handleSubmit} className="auth-form">
+            {recovering && (
+              <div className="form-group">
+                <div className="input-wrapper">
+                  <KeyIcon size={20} className="input-icon" />
+                  <input
+                    type="text"
+                    autoComplete="off"
+                    spellCheck={false}
+                    value={recoveryKey}
+                    onChange={(e) => setRecoveryKey(e.target.value)}
+                    placeholder="Recovery key from your recovery kit"
+                    className="auth-input"
+                    required
+                  />
+                </div>
+              </div>
+            )}
+
             <div className="form-group">
               <div className="input-wrapper">
                 <LockIcon size={20} className="input-icon" />
-                <input
-                  type="password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  placeholder="Enter your master password"
-                  className="auth-input"
-                  required
-                />
+                {showPinUnlock ? (
+                  <input
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    value={pin}
+                    onChange={(e) => setPin(e.target.value)}
+                    placeholder="Enter your PIN"
+                    className="auth-input"
+                    required
+                  />
+                ) : (
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder={recovering ? "New master password" : "Enter your master password"}
+                    className="auth-input"
+                    required
+                  />
+                )}
               </div>
             </div>
+
+            {recovering && (
+              <div className="form-group">
+                <div className="input-wrapper">
+                  <LockIcon size={20} className="input-icon" />
+                  <input
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    placeholder="Confirm new master password"
+                    className="auth-input"
+                    required
+                  />
+                </div>
+              </div>
+            )}
             
             <button type="submit" className="auth-button unlock-button" disabled={isLoading}>
               <KeyIcon size={20} className="button-icon" />
-              {isLoading ? "Unlocking..." : "Unlock Vault"}
+              {recovering ? "Set New Master Password" : isLoading ? "Unlocking..." : "Unlock Vault"}
             </button>
             
             {error && (
@@ -86,6 +178,20 @@ const AuthPage = () => {
             )}
           </form>
           
+          {hasPin && !recovering && (
+            <div className="auth-toggle">
+              <button type="button" onClick={toggleUnlockMethod} className="toggle-button">
+                {usePassword ? "Unlock with PIN" : "Use master password instead"}
+              </button>
+            </div>
+          )}
+
+          <div className="auth-toggle">
+            <button type="button" onClick={toggleRecovery} className="toggle-button">
+              {recovering ? "Back to unlock" : "Forgot master password?"}
+            </button>
+          </div>
+
           <div className="auth-footer">
             <ShieldIcon size={16} className="footer-icon" />
             Your data is encrypted and secure
@@ -117,9 +223,11 @@ const AuthPage = () => {
           <div className="auth-logo">
             <ShieldIcon size={40} className="logo-icon" />
           </div>
-          <h1 className="auth-title">{isLogin ? "Welcome Back" : "Create Account"}</h1>
+          <h1 className="auth-title">{requestingRecovery ? "Recover Account" : isLogin ? "Welcome Back" : "Create Account"}</h1>
           <p className="auth-subtitle">
-            {isLogin ? "Sign in to your secure vault" : "Start your secure journey"}
+            {requestingRecovery
+              ? "We'll email you a link, then you'll need your recovery kit"
+              : isLogin ? "Sign in to your secure vault" : "Start your secure journey"}
           </p>
         </div>
         
@@ -138,24 +246,36 @@ const AuthPage = () => {
             </div>
           </div>
           
-          <div className="form-group">
-            <div className="input-wrapper">
-              <LockIcon size={20} className="input-icon" />
-              <input
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                placeholder="Master password"
-                className="auth-input"
-                required
-              />
+          {!requestingRecovery && (
+            <div className="form-group">
+              <div className="input-wrapper">
+                <LockIcon size={20} className="input-icon" />
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Master password"
+                  className="auth-input"
+                  required
+                />
+              </div>
             </div>
-          </div>
+          )}
           
+          {isLogin && !requestingRecovery && (error || legacyLogin) && (
+            <label className="auth-legacy-login">
+              <input type="checkbox" checked={legacyLogin} onChange={(e) => setLegacyLogin(e.target.checked)} />
+              My account is from before sign-in used a login hash. This sends the master password
+              itself, only use it if normal sign-in keeps failing.
+            </label>
+          )}
+
           <button type="submit" className="auth-button login-button" disabled={isLoading}>
             {isLogin ? <KeyIcon size={20} className="button-icon" /> : <ShieldIcon size={20} className="button-icon" />}
-            {isLoading ? "Loading..." : isLogin ? "Sign In" : "Create Vault"}
+            {requestingRecovery ? "Send Recovery Link" : isLoading ? "Loading..." : isLogin ? "Sign In" : "Create Vault"}
           </button>
+
+          {notice && <div className="auth-notice">{notice}</div>}
           
           {error && (
             <div className="auth-error">
@@ -165,12 +285,22 @@ const AuthPage = () => {
           )}
         </form>
         
-        <div className="auth-toggle">
-          <span>{isLogin ? "Don't have an account?" : "Already have an account?"}</span>
-          <button onClick={() => setIsLogin(!isLogin)} className="toggle-button">
-            {isLogin ? "Sign Up" : "Sign In"}
-          </button>
-        </div>
+        {!requestingRecovery && (
+          <div className="auth-toggle">
+            <span>{isLogin ? "Don't have an account?" : "Already have an account?"}</span>
+            <button onClick={() => setIsLogin(!isLogin)} className="toggle-button">
+              {isLogin ? "Sign Up" : "Sign In"}
+            </button>
+          </div>
+        )}
+
+        {isLogin && (
+          <div className="auth-toggle">
+            <button type="button" onClick={toggleRecoveryRequest} className="toggle-button">
+              {requestingRecovery ? "Back to sign in" : "Recover account"}
+            </button>
+          </div>
+        )}
         
         <div className="auth-footer">
           <ShieldIcon size={16} className="footer-icon" />
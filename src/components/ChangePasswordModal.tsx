@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { useAppStore } from "../stores/authStore";
+
+interface ChangePasswordModalProps {
+  onClose: () => void;
+}
+
+const ChangePasswordModal = ({ onClose }: ChangePasswordModalProps) => {
+  const { changeMasterPassword } = useAppStore();
+  const [formData, setFormData] = useState({
+    currentPassword: '',
+    newPassword: '',
+    confirmPassword: ''
+  });
+  const [formErrors, setFormErrors] = useState<{[key: string]: string}>({});
+  const [loading, setLoading] = useState(false);
+  const [done, setDone] = useState(false);
+
+  const validateForm = () => {
+    const errors: {[key: string]: string} = {};
+
+    if (!formData.currentPassword) {
+      errors.currentPassword = 'Current password is required';
+    }
+    if (formData.newPassword.length < 8) {
+      errors.newPassword = 'New password must be at least 8 characters';
+    } else if (formData.newPassword === formData.currentPassword) {
+      errors.newPassword = 'New password must be different';
+    }
+    if (formData.confirmPassword !== formData.newPassword) {
+      errors.confirmPassword = 'Passwords do not match';
+    }
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm()) return;
+
+    setLoading(true);
+    try {
+      await changeMasterPassword(formData.currentPassword, formData.newPassword);
+      setDone(true);
+    } catch (error) {
+      setFormErrors({ general: error instanceof Error ? error.message : 'Failed to change password' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={loading ? undefined : onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <button className="modal-close" onClick={onClose} disabled={loading}>&times;</button>
+        <h2>Change Master Password</h2>
+
+        {done ? (
+          <>
+            <p>Your master password has been changed. Use the new password the next time you unlock.</p>
+            <div className="modal-actions">
+              <button type="button" className="primary-btn" onClick={onClose}>Done</button>
+            </div>
+          </>
+        ) : (
+          <>
+            {formErrors.general && <div className="error-message">{formErrors.general}</div>}
+            <form className="add-form" onSubmit={(e) => { e.preventDefault(); handleSubmit(); }}>
+              <div className="form-group">
+                <label htmlFor="currentPassword">Current Password</label>
+                <input
+                  id="currentPassword"
+                  type="password"
+                  value={formData.currentPassword}
+                  onChange={(e) => setFormData(prev => ({ ...prev, currentPassword: e.target.value }))}
+                  className={formErrors.currentPassword ? 'error' : ''}
+                />
+                {formErrors.currentPassword && <div className="field-error">{formErrors.currentPassword}</div>}
+              </div>
+              <div className="form-group">
+                <label htmlFor="newPassword">New Password</label>
+                <input
+                  id="newPassword"
+                  type="password"
+                  value={formData.newPassword}
+                  onChange={(e) => setFormData(prev => ({ ...prev, newPassword: e.target.value }))}
+                  className={formErrors.newPassword ? 'error' : ''}
+                />
+                {formErrors.newPassword && <div className="field-error">{formErrors.newPassword}</div>}
+              </div>
+              <div className="form-group">
+                <label htmlFor="confirmPassword">Confirm New Password</label>
+                <input
+                  id="confirmPassword"
+                  type="password"
+                  value={formData.confirmPassword}
+                  onChange={(e) => setFormData(prev => ({ ...prev, confirmPassword: e.target.value }))}
+                  className={formErrors.confirmPassword ? 'error' : ''}
+                />
+                {formErrors.confirmPassword && <div className="field-error">{formErrors.confirmPassword}</div>}
+              </div>
+              <div className="modal-actions">
+                <button type="button" className="cancel-btn" onClick={onClose} disabled={loading}>Cancel</button>
+                <button type="submit" disabled={loading} className="primary-btn">
+                  {loading ? 'Re-encrypting...' : 'Change Password'}
+                </button>
+              </div>
+            </form>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ChangePasswordModal;
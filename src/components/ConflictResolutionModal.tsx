@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { useAppStore } from "../stores/authStore";
+import { MERGEABLE_FIELDS, type ItemConflict, type ItemFields, type MergeableField } from "../services/itemMerge";
+import './ConflictResolutionModal.css';
+
+interface ConflictResolutionModalProps {
+  mutationId: string;
+  conflict: ItemConflict;
+  onClose: () => void;
+}
+
+type Side = 'mine' | 'theirs';
+
+const FIELD_LABELS: Record<MergeableField, string> = {
+  type: 'Type',
+  name: 'Name',
+  url: 'URL',
+  username: 'Username',
+  password: 'Password',
+  notes: 'Notes',
+  tags: 'Tags',
+};
+
+const formatValue = (field: MergeableField, value: ItemFields[MergeableField], revealed: boolean) => {
+  if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) return '—';
+  if (Array.isArray(value)) return value.join(', ');
+  if (field === 'password' && !revealed) return '••••••••';
+  return value;
+};
+
+// Side by side view of an edit that clashed with a change made on another device.
+// Fields only one side changed are already merged; the user picks a side for the rest.
+const ConflictResolutionModal = ({ mutationId, conflict, onClose }: ConflictResolutionModalProps) => {
+  const { resolveConflict } = useAppStore();
+  const [choices, setChoices] = useState<Partial<Record<MergeableField, Side>>>({});
+  const [revealed, setRevealed] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fields = MERGEABLE_FIELDS.filter(field =>
+    conflict.fields.includes(field) || conflict.mine[field] !== undefined || conflict.theirs[field] !== undefined
+  );
+  const allChosen = conflict.fields.every(field => choices[field]);
+
+  const save = async (pick: (field: MergeableField) => Side) => {
+    // Yours already includes the changes that merged cleanly
+    const resolved: ItemFields = { ...conflict.mine };
+    for (const field of conflict.fields) {
+      (resolved as Record<string, unknown>)[field] = conflict[pick(field)][field];
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await resolveConflict(mutationId, resolved);
+      onClose();
+    } catch (err) {
+      setChoices({});
+      setError(err instanceof Error ? err.message : 'Failed to save the item');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={saving ? undefined : onClose}>
+      <div className="modal-content conflict-resolution" onClick={(e) => e.stopPropagation()}>
+        <button className="modal-close" onClick={onClose} disabled={saving}>&times;</button>
+        <h2>Resolve Conflict</h2>
+        <p>"{conflict.theirs.name}" was changed on another device while you edited it. Choose which version to keep for each highlighted field. The other version stays in the item's history.</p>
+        {error && <div className="error-message">{error}</div>}
+
+        <div className="conflict-grid">
+          <div className="conflict-row conflict-heading">
+            <div />
+            <div>Yours</div>
+            <div>Theirs</div>
+          </div>
+          {fields.map(field => {
+            const conflicting = conflict.fields.includes(field);
+            return (
+              <div key={field} className={`conflict-row ${conflicting ? 'conflicting' : ''}`}>
+                <div className="conflict-label">{FIELD_LABELS[field]}</div>
+                {(['mine', 'theirs'] as Side[]).map(side => (
+                  conflicting ? (
+                    <label key={side} className={`conflict-value ${choices[field] === side ? 'selected' : ''}`}>
+                      <input
+                        type="radio"
+                        name={`conflict-${field}`}
+                        checked={choices[field] === side}
+                        onChange={() => setChoices({ ...choices, [field]: side })}
+                        disabled={saving}
+                      />
+                      <span>{formatValue(field, conflict[side][field], revealed)}</span>
+                    </label>
+                  ) : (
+                    <div key={side} className="conflict-value">
+                      <span>{formatValue(field, conflict[side][field], revealed)}</span>
+                    </div>
+                  )
+                ))}
+              </div>
+            );
+          })}
+        </div>
+
+        <label className="conflict-reveal">
+          <input type="checkbox" checked={revealed} onChange={(e) => setRevealed(e.target.checked)} />
+          Show passwords
+        </label>
+
+        <div className="modal-actions">
+          <button className="cancel-btn" onClick={() => save(() => 'theirs')} disabled={saving}>Keep Theirs</button>
+          <button className="cancel-btn" onClick={() => save(() => 'mine')} disabled={saving}>Keep Mine</button>
+          <button className="primary-btn" onClick={() => save(field => choices[field]!)} disabled={saving || !allChosen}>
+            {saving ? 'Saving...' : 'Save Selection'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictResolutionModal;
@@ -0,0 +1,91 @@
+import { useEffect, useState } from "react";
+import { useAppStore } from "../stores/authStore";
+import EncryptionService from "../services/encryption";
+import ContactVerificationService, { type Contact, type VerificationStatus } from "../services/contactVerification";
+import './ContactVerification.css';
+
+interface ContactVerificationProps {
+  contact: Contact;
+  onStatusChange?: (status: VerificationStatus) => void;
+}
+
+const STATUS_LABELS: Record<VerificationStatus, string> = {
+  verified: 'Verified',
+  unverified: 'Not verified',
+  changed: 'Key changed',
+};
+
+// Safety number and QR code of a contact, to compare with them out of band
+const ContactVerification = ({ contact, onStatusChange }: ContactVerificationProps) => {
+  const { user, sharingKeys } = useAppStore();
+  const [status, setStatus] = useState<VerificationStatus>(() => ContactVerificationService.getStatus(user!.id, contact));
+  const [safetyNumber, setSafetyNumber] = useState<string | null>(null);
+  const [qrCode, setQrCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user || !sharingKeys) return;
+    let cancelled = false;
+
+    ContactVerificationService.getSafetyNumber(user.id, EncryptionService.toBase64(sharingKeys.publicKey), contact)
+      .then(async number => {
+        const qr = await ContactVerificationService.createQrCode(number);
+        if (cancelled) return;
+        setSafetyNumber(number);
+        setQrCode(qr);
+      })
+      .catch(error => console.error('Error creating safety number:', error));
+
+    return () => { cancelled = true; };
+  }, [user, sharingKeys, contact]);
+
+  const updateStatus = (next: VerificationStatus) => {
+    setStatus(next);
+    onStatusChange?.(next);
+  };
+
+  const handleVerify = () => {
+    ContactVerificationService.markVerified(user!.id, contact);
+    updateStatus('verified');
+  };
+
+  const handleUnverify = () => {
+    ContactVerificationService.removeVerification(user!.id, contact.userId);
+    updateStatus('unverified');
+  };
+
+  return (
+    <div className={`contact-verification status-${status}`}>
+      <div className="contact-verification-header">
+        <strong>{contact.email}</strong>
+        <span className="contact-verification-status">{STATUS_LABELS[status]}</span>
+      </div>
+      {status === 'changed' && (
+        <p className="contact-verification-warning">
+          Their security key is different from the one you verified. This happens if they reset their account,
+          or if someone is trying to intercept what you share. Compare the safety number again before sharing with them.
+        </p>
+      )}
+      <p className="contact-verification-help">
+        Compare this safety number with {contact.email} in person or over a call, or let them scan the QR code.
+        It matches on both sides only if nobody swapped your keys.
+      </p>
+      {safetyNumber ? (
+        <>
+          <code className="safety-number">{safetyNumber}</code>
+          {qrCode && <img className="safety-number-qr" src={qrCode} alt="Safety number QR code" />}
+        </>
+      ) : (
+        <p className="contact-verification-help">Calculating...</p>
+      )}
+      <div className="contact-verification-actions">
+        {status === 'verified' ? (
+          <button type="button" className="cancel-btn" onClick={handleUnverify}>Clear Verification</button>
+        ) : (
+          <button type="button" className="primary-btn" onClick={handleVerify} disabled={!safetyNumber}>Mark as Verified</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ContactVerification;
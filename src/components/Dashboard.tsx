@@ -3,17 +3,66 @@ import { useTheme } from "./ThemeProvider";
 import AuthPage from "./AuthPage";
 import HealthScore from "./HealthScore";
 import VaultList from "./VaultList";
+import SharedVaultsService from "../services/sharedVaults";
 import { ShieldIcon, BellIcon, LoginIcon, CardIcon, IdentityIcon, FilesIcon } from "./FaviconIcon";
 import './Dashboard.css';
 
 const Dashboard = () => {
-  const { user, isUnlocked, vaults } = useAppStore();
+  const {
+    user, isUnlocked, vaults, failedRecordCount, loadProgress, integrityIssues, acceptVaultIntegrity,
+    lockedOutMembers, dismissLockedOutMembers,
+    pendingInvites, acceptInvite, declineInvite,
+  } = useAppStore();
   const { theme, actualTheme, toggleTheme } = useTheme();
 
   if (!user || !isUnlocked) {
     return <AuthPage />;
   }
 
+  const canAcceptIntegrity = (vaultId: string) => {
+    const vault = vaults.find(v => v.id === vaultId);
+    return !!vault && SharedVaultsService.canEdit(vault);
+  };
+
+  const describeIntegrityIssue = (issue: typeof integrityIssues[number]) => {
+    if (issue.manifestUnreadable) return "its item list could not be verified and may have been replaced.";
+    const problems = [];
+    if (issue.missing.length > 0) problems.push(`${issue.missing.length} ${issue.missing.length === 1 ? "item is" : "items are"} missing`);
+    if (issue.unknown.length > 0) problems.push(`${issue.unknown.length} ${issue.unknown.length === 1 ? "item appeared that was" : "items appeared that were"} never added or already deleted`);
+    if (issue.rolledBack.length > 0) problems.push(`${issue.rolledBack.length} ${issue.rolledBack.length === 1 ? "item was" : "items were"} rolled back to an older version`);
+    if (issue.manifestRolledBack) problems.push("the vault was restored to an older state");
+    return `${problems.join(", ")}.`;
+  };
+
+  const handleAcceptIntegrity = async (vaultId: string) => {
+    if (!window.confirm('Accept the vault as it is now? This clears the warning, missing or older items are not restored and items that appeared are kept.')) return;
+    try {
+      await acceptVaultIntegrity(vaultId);
+    } catch (error) {
+      console.error('Error accepting vault state:', error);
+      alert('Failed to update the vault');
+    }
+  };
+
+  const handleAcceptInvite = async (inviteId: string) => {
+    try {
+      await acceptInvite(inviteId);
+    } catch (error) {
+      console.error('Error accepting invitation:', error);
+      alert(error instanceof Error ? error.message : 'Failed to accept invitation');
+    }
+  };
+
+  const handleDeclineInvite = async (inviteId: string) => {
+    if (!window.confirm('Decline this invitation?')) return;
+    try {
+      await declineInvite(inviteId);
+    } catch (error) {
+      console.error('Error declining invitation:', error);
+      alert('Failed to decline invitation');
+    }
+  };
+
   const summaryData = {
     total: vaults.reduce((acc, vault) => acc + vault.items.length, 0),
     compromised: vaults.reduce((acc, vault) => acc + vault.items.filter(i => i.tags?.includes('compromised')).length, 0),
@@ -43,6 +92,66 @@ const Dashboard = () => {
       </header>
 
       <main className="dashboard-content">
+        {loadProgress && loadProgress.total > 0 && (
+          <div className="load-progress" role="status">
+            <span>Decrypting {loadProgress.done} of {loadProgress.total} items...</span>
+            <div className="load-progress-bar">
+              <div className="load-progress-fill" style={{ width: `${(loadProgress.done / loadProgress.total) * 100}%` }} />
+            </div>
+          </div>
+        )}
+
+        {failedRecordCount > 0 && (
+          <div className="decrypt-warning" role="alert">
+            {failedRecordCount} {failedRecordCount === 1 ? "record" : "records"} could not be decrypted and {failedRecordCount === 1 ? "is" : "are"} not shown.
+          </div>
+        )}
+
+        {integrityIssues.map(issue => (
+          <div key={issue.vaultId} className="integrity-warning" role="alert">
+            <p>
+              <strong>Vault "{vaults.find(v => v.id === issue.vaultId)?.name}" may have been tampered with:</strong>{" "}
+              {describeIntegrityIssue(issue)} Changes like this are not made by HushKey and could mean the server was compromised.
+            </p>
+            {canAcceptIntegrity(issue.vaultId) ? (
+              <button onClick={() => handleAcceptIntegrity(issue.vaultId)}>Accept current state</button>
+            ) : (
+              <p>Ask the vault owner to review this vault.</p>
+            )}
+          </div>
+        ))}
+
+        {Object.entries(lockedOutMembers).map(([vaultId, emails]) => (
+          <div key={vaultId} className="integrity-warning" role="alert">
+            <p>
+              <strong>Some members lost access to vault "{vaults.find(v => v.id === vaultId)?.name}":</strong>{" "}
+              The new vault key could not be given to {emails.join(", ")}, their public key is missing or changed
+              since you verified it. Invite them again once you have checked their new key.
+            </p>
+            <button onClick={() => dismissLockedOutMembers(vaultId)}>Dismiss</button>
+          </div>
+        ))}
+
+        {pendingInvites.length > 0 && (
+          <div className="pending-invites">
+            <h2>Invitations</h2>
+            {pendingInvites.map(invite => (
+              <div key={invite.id} className="invite-card">
+                <div className="invite-info">
+                  <strong>{invite.vault.name}</strong>
+                  <span>
+                    From {invite.inviterEmail} · {invite.permissions} access · expires {invite.expiresAt.toLocaleDateString()}
+                  </span>
+                </div>
+                <div className="invite-actions">
+                  <button className="primary-btn" onClick={() => handleAcceptInvite(invite.id)}>Accept</button>
+                  <button className="cancel-btn" onClick={() => handleDeclineInvite(invite.id)}>Decline</button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
         <div className="dashboard-stats">
           <div className="score-section">
             <HealthScore score={calculateHealthScore()} />
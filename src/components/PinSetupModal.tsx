@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { useAppStore } from "../stores/authStore";
+import PinUnlockService from "../services/pinUnlock";
+
+interface PinSetupModalProps {
+  onClose: () => void;
+}
+
+const PinSetupModal = ({ onClose }: PinSetupModalProps) => {
+  const { setPin } = useAppStore();
+  const [formData, setFormData] = useState({
+    pin: '',
+    confirmPin: '',
+    password: ''
+  });
+  const [formErrors, setFormErrors] = useState<{[key: string]: string}>({});
+  const [loading, setLoading] = useState(false);
+
+  const validateForm = () => {
+    const errors: {[key: string]: string} = {};
+
+    const pinError = PinUnlockService.validatePin(formData.pin);
+    if (pinError) {
+      errors.pin = pinError;
+    }
+    if (formData.confirmPin !== formData.pin) {
+      errors.confirmPin = 'PINs do not match';
+    }
+    if (!formData.password) {
+      errors.password = 'Master password is required';
+    }
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm()) return;
+
+    setLoading(true);
+    try {
+      await setPin(formData.pin, formData.password);
+      onClose();
+    } catch (error) {
+      setFormErrors({ general: error instanceof Error ? error.message : 'Failed to set PIN' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={loading ? undefined : onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <button className="modal-close" onClick={onClose} disabled={loading}>&times;</button>
+        <h2>Set Up PIN</h2>
+        <p>Use a PIN to unlock HushKey on this device while online. After 5 wrong attempts the PIN is removed and your master password is required.</p>
+        {formErrors.general && <div className="error-message">{formErrors.general}</div>}
+        <form className="add-form" onSubmit={(e) => { e.preventDefault(); handleSubmit(); }}>
+          <div className="form-group">
+            <label htmlFor="pin">PIN</label>
+            <input
+              id="pin"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              value={formData.pin}
+              onChange={(e) => setFormData(prev => ({ ...prev, pin: e.target.value }))}
+              placeholder="4 to 12 digits"
+              className={formErrors.pin ? 'error' : ''}
+            />
+            {formErrors.pin && <div className="field-error">{formErrors.pin}</div>}
+          </div>
+          <div className="form-group">
+            <label htmlFor="confirmPin">Confirm PIN</label>
+            <input
+              id="confirmPin"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              value={formData.confirmPin}
+              onChange={(e) => setFormData(prev => ({ ...prev, confirmPin: e.target.value }))}
+              className={formErrors.confirmPin ? 'error' : ''}
+            />
+            {formErrors.confirmPin && <div className="field-error">{formErrors.confirmPin}</div>}
+          </div>
+          <div className="form-group">
+            <label htmlFor="pinMasterPassword">Master Password</label>
+            <input
+              id="pinMasterPassword"
+              type="password"
+              value={formData.password}
+              onChange={(e) => setFormData(prev => ({ ...prev, password: e.target.value }))}
+              className={formErrors.password ? 'error' : ''}
+            />
+            {formErrors.password && <div className="field-error">{formErrors.password}</div>}
+          </div>
+          <div className="modal-actions">
+            <button type="button" className="cancel-btn" onClick={onClose} disabled={loading}>Cancel</button>
+            <button type="submit" disabled={loading} className="primary-btn">
+              {loading ? 'Saving...' : 'Save PIN'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default PinSetupModal;
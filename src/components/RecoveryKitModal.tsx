@@ -0,0 +1,118 @@
+import { useEffect, useState } from "react";
+import { useAppStore } from "../stores/authStore";
+import RecoveryService from "../services/recovery";
+import './RecoveryKitModal.css';
+
+interface RecoveryKitModalProps {
+  recoveryKey?: string; // Omit to create a new recovery key after confirming the master password
+  onClose: () => void;
+}
+
+const RecoveryKitModal = ({ recoveryKey: initialKey, onClose }: RecoveryKitModalProps) => {
+  const { user, createRecoveryKit } = useAppStore();
+  const [recoveryKey, setRecoveryKey] = useState(initialKey ?? null);
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [password, setPassword] = useState('');
+  const [formErrors, setFormErrors] = useState<{[key: string]: string}>({});
+  const [loading, setLoading] = useState(false);
+  const email = user?.email ?? '';
+
+  useEffect(() => {
+    if (!recoveryKey) return;
+    RecoveryService.createQrCode(recoveryKey).then(setQrCode).catch(console.error);
+  }, [recoveryKey]);
+
+  const handleCreate = async () => {
+    if (!password) {
+      setFormErrors({ password: 'Master password is required' });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setRecoveryKey(await createRecoveryKit(password));
+      setFormErrors({});
+    } catch (error) {
+      setFormErrors({ general: error instanceof Error ? error.message : 'Failed to create recovery kit' });
+    } finally {
+      setLoading(false);
+      setPassword('');
+    }
+  };
+
+  const handleDownload = async () => {
+    const kit = await RecoveryService.createKit(email, recoveryKey!);
+    const url = URL.createObjectURL(new Blob([kit], { type: 'text/html' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'hushkey-recovery-kit.html';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handlePrint = async () => {
+    // Print from a hidden frame so the kit never opens in a new window
+    const frame = document.createElement('iframe');
+    frame.className = 'recovery-kit-print-frame';
+    frame.srcdoc = await RecoveryService.createKit(email, recoveryKey!);
+    frame.onload = () => {
+      frame.contentWindow?.print();
+      setTimeout(() => frame.remove(), 1000);
+    };
+    document.body.appendChild(frame);
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <h2>Recovery Kit</h2>
+
+        {recoveryKey ? (
+          <>
+            <p>
+              This recovery key is the only way back into your vault if you forget your master password.
+              It is shown once: print or download the kit now and keep it somewhere safe.
+            </p>
+            <div className="recovery-kit">
+              <div className="recovery-kit-email">{email}</div>
+              <code className="recovery-kit-key">{recoveryKey}</code>
+              {qrCode && <img className="recovery-kit-qr" src={qrCode} alt="Recovery key QR code" />}
+            </div>
+            <div className="modal-actions">
+              <button type="button" className="cancel-btn" onClick={handleDownload}>Download</button>
+              <button type="button" className="cancel-btn" onClick={handlePrint}>Print</button>
+              <button type="button" className="primary-btn" onClick={onClose}>I've Saved It</button>
+            </div>
+          </>
+        ) : (
+          <>
+            <button className="modal-close" onClick={onClose} disabled={loading}>&times;</button>
+            <p>Creating a new recovery kit replaces your current recovery key, which will stop working.</p>
+            {formErrors.general && <div className="error-message">{formErrors.general}</div>}
+            <form className="add-form" onSubmit={(e) => { e.preventDefault(); handleCreate(); }}>
+              <div className="form-group">
+                <label htmlFor="recoveryMasterPassword">Master Password</label>
+                <input
+                  id="recoveryMasterPassword"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className={formErrors.password ? 'error' : ''}
+                />
+                {formErrors.password && <div className="field-error">{formErrors.password}</div>}
+              </div>
+              <div className="modal-actions">
+                <button type="button" className="cancel-btn" onClick={onClose} disabled={loading}>Cancel</button>
+                <button type="submit" disabled={loading} className="primary-btn">
+                  {loading ? 'Creating...' : 'Create Kit'}
+                </button>
+              </div>
+            </form>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryKitModal;
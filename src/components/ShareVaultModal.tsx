@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { useAppStore, type Vault } from "../stores/authStore";
+import type { SharePermission } from "../services/database";
+import SharedVaultsService from "../services/sharedVaults";
+import ContactVerificationService, { type Contact, type VerificationStatus } from "../services/contactVerification";
+import ContactVerification from "./ContactVerification";
+
+interface ShareVaultModalProps {
+  vault: Vault;
+  onClose: () => void;
+}
+
+const PERMISSION_DESCRIPTIONS: Record<SharePermission, string> = {
+  read: 'Can view items',
+  write: 'Can view, add and edit items',
+  admin: 'Can also invite others',
+};
+
+const ShareVaultModal = ({ vault, onClose }: ShareVaultModalProps) => {
+  const { user, inviteToVault } = useAppStore();
+  const [email, setEmail] = useState('');
+  const [contact, setContact] = useState<Contact | null>(null);
+  const [keyStatus, setKeyStatus] = useState<VerificationStatus>('unverified');
+  const [permissions, setPermissions] = useState<SharePermission>('read');
+  const [formErrors, setFormErrors] = useState<{[key: string]: string}>({});
+  const [loading, setLoading] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  // Look up the recipient first so their safety number can be checked before sealing
+  const handleContinue = async () => {
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+      setFormErrors({ email: 'Enter a valid email address' });
+      return;
+    }
+
+    setLoading(true);
+    setFormErrors({});
+    setSentTo(null);
+    try {
+      const found = await SharedVaultsService.findContact(email);
+      setContact(found);
+      setKeyStatus(ContactVerificationService.getStatus(user!.id, found));
+    } catch (error) {
+      setFormErrors({ general: error instanceof Error ? error.message : 'Failed to look up this account' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!contact) return handleContinue();
+
+    setLoading(true);
+    setFormErrors({});
+    try {
+      await inviteToVault(vault.id, contact.email, permissions, contact.publicKey);
+      setSentTo(contact.email);
+      setEmail('');
+      setContact(null);
+    } catch (error) {
+      setFormErrors({ general: error instanceof Error ? error.message : 'Failed to create invitation' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={loading ? undefined : onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <button className="modal-close" onClick={onClose} disabled={loading}>&times;</button>
+        <h2>Share "{vault.name}"</h2>
+        <p>The invitation is encrypted for the recipient's account and expires after 7 days. They need a HushKey account to accept it.</p>
+        {formErrors.general && <div className="error-message">{formErrors.general}</div>}
+        {sentTo && <div className="success-message">Invitation sent to {sentTo}</div>}
+        <form className="add-form" onSubmit={(e) => { e.preventDefault(); handleSubmit(); }}>
+          <div className="form-group">
+            <label htmlFor="inviteEmail">Email</label>
+            <input
+              id="inviteEmail"
+              type="email"
+              value={email}
+              onChange={(e) => { setEmail(e.target.value); setContact(null); }}
+              placeholder="name@example.com"
+              className={formErrors.email ? 'error' : ''}
+              autoFocus
+            />
+            {formErrors.email && <div className="field-error">{formErrors.email}</div>}
+          </div>
+          <div className="form-group">
+            <label htmlFor="invitePermissions">Permission</label>
+            <select
+              id="invitePermissions"
+              value={permissions}
+              onChange={(e) => setPermissions(e.target.value as SharePermission)}
+            >
+              {(Object.keys(PERMISSION_DESCRIPTIONS) as SharePermission[]).map(permission => (
+                <option key={permission} value={permission}>
+                  {permission.charAt(0).toUpperCase() + permission.slice(1)} - {PERMISSION_DESCRIPTIONS[permission]}
+                </option>
+              ))}
+            </select>
+          </div>
+          {contact && (
+            <ContactVerification key={contact.userId} contact={contact} onStatusChange={setKeyStatus} />
+          )}
+          <div className="modal-actions">
+            <button type="button" className="cancel-btn" onClick={onClose} disabled={loading}>Close</button>
+            <button type="submit" disabled={loading || keyStatus === 'changed'} className="primary-btn">
+              {loading ? 'Sending...' : contact ? 'Send Invitation' : 'Continue'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ShareVaultModal;
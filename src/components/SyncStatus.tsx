@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { useAppStore } from "../stores/authStore";
+import type { PendingMutation } from "../services/syncEngine";
+import ConflictResolutionModal from "./ConflictResolutionModal";
+import './SyncStatus.css';
+
+const TYPE_LABELS: Record<PendingMutation['type'], string> = {
+  create: 'Add',
+  update: 'Edit',
+  delete: 'Delete',
+};
+
+// Connectivity and the item changes waiting to reach the server
+const SyncStatus = () => {
+  const { vaults, syncQueue, itemConflicts, isOnline, syncPending, discardPendingChange } = useAppStore();
+  const [expanded, setExpanded] = useState(false);
+  const [resolving, setResolving] = useState<string | null>(null);
+
+  if (isOnline && syncQueue.length === 0) return null;
+
+  const failed = syncQueue.filter(mutation => mutation.status === 'failed').length;
+  const conflicts = syncQueue.filter(mutation => mutation.status === 'conflict').length;
+  const count = `${syncQueue.length} ${syncQueue.length === 1 ? 'change' : 'changes'}`;
+  const summary = !isOnline
+    ? syncQueue.length > 0 ? `Offline · ${count} waiting to sync` : 'Offline · changes will sync when you reconnect'
+    : conflicts > 0 ? `${conflicts} of ${count} changed on another device, choose what to keep`
+    : failed > 0 ? `${failed} of ${count} failed to sync` : `Syncing ${count}...`;
+
+  const itemName = (mutation: PendingMutation) =>
+    vaults.flatMap(vault => vault.items).find(item => item.id === mutation.itemId)?.name ?? 'Deleted item';
+
+  const describeStatus = (mutation: PendingMutation) => {
+    if (mutation.status === 'syncing') return 'Syncing...';
+    if (mutation.status === 'pending') return 'Waiting';
+    if (mutation.status === 'conflict') return 'Conflict';
+    return `Failed ${mutation.attempts}× · retrying ${mutation.nextAttemptAt.toLocaleTimeString()}`;
+  };
+
+  const handleDiscard = async (mutation: PendingMutation) => {
+    if (!window.confirm(`Discard this change to "${itemName(mutation)}"? It will not be saved.`)) return;
+    try {
+      await discardPendingChange(mutation.id);
+    } catch (error) {
+      console.error('Error discarding change:', error);
+    }
+  };
+
+  return (
+    <div className={`sync-status ${isOnline ? '' : 'offline'} ${failed + conflicts > 0 ? 'has-failed' : ''}`}>
+      <div className="sync-status-summary">
+        <span>{summary}</span>
+        {syncQueue.length > 0 && (
+          <button onClick={() => setExpanded(!expanded)}>{expanded ? 'Hide' : 'Details'}</button>
+        )}
+        {isOnline && failed > 0 && <button onClick={() => syncPending(true)}>Retry Now</button>}
+      </div>
+      {expanded && (
+        <ul className="sync-status-list">
+          {syncQueue.map(mutation => (
+            <li key={mutation.id} className={`sync-mutation status-${mutation.status}`}>
+              <div className="sync-mutation-info">
+                <strong>{TYPE_LABELS[mutation.type]} "{itemName(mutation)}"</strong>
+                <span>{describeStatus(mutation)}</span>
+                {mutation.lastError && <span className="sync-mutation-error">{mutation.lastError}</span>}
+              </div>
+              {mutation.status === 'conflict' && itemConflicts[mutation.id] && (
+                <button onClick={() => setResolving(mutation.id)}>Resolve</button>
+              )}
+              {(mutation.status === 'failed' || mutation.status === 'conflict') && (
+                <button onClick={() => handleDiscard(mutation)}>Discard</button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {resolving && itemConflicts[resolving] && (
+        <ConflictResolutionModal
+          mutationId={resolving}
+          conflict={itemConflicts[resolving]}
+          onClose={() => setResolving(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SyncStatus;
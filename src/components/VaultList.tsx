@@ -1,5 +1,8 @@
 import { useState } from "react";
 import { useAppStore, type Vault } from "../stores/authStore";
+import ShareVaultModal from "./ShareVaultModal";
+import VaultSettingsModal from "./VaultSettingsModal";
+import SharedVaultsService from "../services/sharedVaults";
 import './VaultList.css';
 
 interface VaultListProps {
@@ -9,10 +12,12 @@ interface VaultListProps {
 }
 
 const VaultList = ({ vaults, onVaultSelect, simple = false }: VaultListProps) => {
-  const { currentVaultId, updateVault, deleteVault } = useAppStore();
+  const { currentVaultId, updateVault, deleteVault, rotateVaultKey, keyRotation } = useAppStore();
   const [editingVault, setEditingVault] = useState<string | null>(null);
   const [editingName, setEditingName] = useState('');
   const [menuOpen, setMenuOpen] = useState<string | null>(null);
+  const [sharingVault, setSharingVault] = useState<Vault | null>(null);
+  const [settingsVault, setSettingsVault] = useState<Vault | null>(null);
 
   const handleEdit = (vault: Vault) => {
     setEditingVault(vault.id);
@@ -50,6 +55,30 @@ const VaultList = ({ vaults, onVaultSelect, simple = false }: VaultListProps) =>
     }
   };
 
+  const handleShare = (vault: Vault) => {
+    setSharingVault(vault);
+    setMenuOpen(null);
+  };
+
+  const handleSettings = (vault: Vault) => {
+    setSettingsVault(vault);
+    setMenuOpen(null);
+  };
+
+  const handleRotateKey = async (vaultId: string) => {
+    setMenuOpen(null);
+    if (window.confirm('Rotate the key of this vault? Every item is re-encrypted with a new key, and the vault cannot be edited until this finishes.')) {
+      try {
+        await rotateVaultKey(vaultId);
+      } catch (error) {
+        console.error('Error rotating vault key:', error);
+        alert(error instanceof Error ? error.message : 'Failed to rotate vault key');
+      }
+    }
+  };
+
+  const accessLabels = { read: 'Read only', write: 'Can edit', admin: 'Admin' };
+
   const toggleMenu = (vaultId: string, e: React.MouseEvent) => {
     e.stopPropagation();
     setMenuOpen(menuOpen === vaultId ? null : vaultId);
@@ -100,7 +129,7 @@ const VaultList = ({ vaults, onVaultSelect, simple = false }: VaultListProps) =>
           onClick={() => editingVault === vault.id ? undefined : onVaultSelect(vault.id)}
           style={{ animationDelay: `${index * 50}ms` }}
         >
-          <div className="vault-icon">🔐</div>
+          <div className="vault-icon">{vault.owner ? '👥' : '🔐'}</div>
           <div className="vault-info">
             {editingVault === vault.id ? (
               <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
@@ -154,27 +183,37 @@ const VaultList = ({ vaults, onVaultSelect, simple = false }: VaultListProps) =>
               </div>
             ) : (
               <>
-                <h3>{vault.name}</h3>
+                <h3>
+                  {vault.name}
+                  {vault.owner && (
+                    <span className={`vault-badge access-${vault.access}`}>{accessLabels[vault.access as keyof typeof accessLabels]}</span>
+                  )}
+                </h3>
+                {vault.owner && <span className="vault-owner">Shared by {vault.owner.email}</span>}
                 <span>
-                  {vault.items.length} {vault.items.length === 1 ? "item" : "items"}
+                  {keyRotation?.vaultId === vault.id
+                    ? `Rotating key... ${keyRotation.done}/${keyRotation.total}`
+                    : `${vault.items.length} ${vault.items.length === 1 ? "item" : "items"}`}
                 </span>
               </>
             )}
           </div>
-          <button
-            className="vault-menu-btn"
-            onClick={(e) => toggleMenu(vault.id, e)}
-            style={{
-              background: 'none',
-              border: 'none',
-              fontSize: '1.2rem',
-              cursor: 'pointer',
-              padding: '0.5rem',
-              borderRadius: '4px'
-            }}
-          >
-            ⋮
-          </button>
+          {SharedVaultsService.canInvite(vault) && (
+            <button
+              className="vault-menu-btn"
+              onClick={(e) => toggleMenu(vault.id, e)}
+              style={{
+                background: 'none',
+                border: 'none',
+                fontSize: '1.2rem',
+                cursor: 'pointer',
+                padding: '0.5rem',
+                borderRadius: '4px'
+              }}
+            >
+              ⋮
+            </button>
+          )}
           {menuOpen === vault.id && (
             <div
               style={{
@@ -188,45 +227,111 @@ const VaultList = ({ vaults, onVaultSelect, simple = false }: VaultListProps) =>
                 minWidth: '100px'
               }}
             >
-              <button
-                onClick={() => handleEdit(vault)}
-                style={{
-                  display: 'block',
-                  width: '100%',
-                  padding: '0.5rem 1rem',
-                  background: 'none',
-                  border: 'none',
-                  textAlign: 'left',
-                  cursor: 'pointer',
-                  borderRadius: '4px 4px 0 0'
-                }}
-                onMouseEnter={(e) => (e.target as HTMLElement).style.backgroundColor = '#f8f9fa'}
-                onMouseLeave={(e) => (e.target as HTMLElement).style.backgroundColor = 'transparent'}
-              >
-                Edit
-              </button>
-              <button
-                onClick={() => handleDelete(vault.id)}
-                style={{
-                  display: 'block',
-                  width: '100%',
-                  padding: '0.5rem 1rem',
-                  background: 'none',
-                  border: 'none',
-                  textAlign: 'left',
-                  cursor: 'pointer',
-                  color: '#dc3545',
-                  borderRadius: '0 0 4px 4px'
-                }}
-                onMouseEnter={(e) => (e.target as HTMLElement).style.backgroundColor = '#f8f9fa'}
-                onMouseLeave={(e) => (e.target as HTMLElement).style.backgroundColor = 'transparent'}
-              >
-                Delete
-              </button>
+              {vault.access === 'owner' && (
+                <button
+                  onClick={() => handleEdit(vault)}
+                  style={{
+                    display: 'block',
+                    width: '100%',
+                    padding: '0.5rem 1rem',
+                    background: 'none',
+                    border: 'none',
+                    textAlign: 'left',
+                    cursor: 'pointer',
+                    borderRadius: '4px 4px 0 0'
+                  }}
+                  onMouseEnter={(e) => (e.target as HTMLElement).style.backgroundColor = '#f8f9fa'}
+                  onMouseLeave={(e) => (e.target as HTMLElement).style.backgroundColor = 'transparent'}
+                >
+                  Edit
+                </button>
+              )}
+              {SharedVaultsService.canInvite(vault) && (
+                <button
+                  onClick={() => handleShare(vault)}
+                  style={{
+                    display: 'block',
+                    width: '100%',
+                    padding: '0.5rem 1rem',
+                    background: 'none',
+                    border: 'none',
+                    textAlign: 'left',
+                    cursor: 'pointer'
+                  }}
+                  onMouseEnter={(e) => (e.target as HTMLElement).style.backgroundColor = '#f8f9fa'}
+                  onMouseLeave={(e) => (e.target as HTMLElement).style.backgroundColor = 'transparent'}
+                >
+                  Share
+                </button>
+              )}
+              {SharedVaultsService.canInvite(vault) && (
+                <button
+                  onClick={() => handleSettings(vault)}
+                  style={{
+                    display: 'block',
+                    width: '100%',
+                    padding: '0.5rem 1rem',
+                    background: 'none',
+                    border: 'none',
+                    textAlign: 'left',
+                    cursor: 'pointer'
+                  }}
+                  onMouseEnter={(e) => (e.target as HTMLElement).style.backgroundColor = '#f8f9fa'}
+                  onMouseLeave={(e) => (e.target as HTMLElement).style.backgroundColor = 'transparent'}
+                >
+                  Settings
+                </button>
+              )}
+              {vault.access === 'owner' && (
+                <>
+                  <button
+                    onClick={() => handleRotateKey(vault.id)}
+                    disabled={!!keyRotation}
+                    style={{
+                      display: 'block',
+                      width: '100%',
+                      padding: '0.5rem 1rem',
+                      background: 'none',
+                      border: 'none',
+                      textAlign: 'left',
+                      cursor: keyRotation ? 'default' : 'pointer',
+                      whiteSpace: 'nowrap'
+                    }}
+                    onMouseEnter={(e) => (e.target as HTMLElement).style.backgroundColor = '#f8f9fa'}
+                    onMouseLeave={(e) => (e.target as HTMLElement).style.backgroundColor = 'transparent'}
+                  >
+                    Rotate Key
+                  </button>
+                  <button
+                    onClick={() => handleDelete(vault.id)}
+                    style={{
+                      display: 'block',
+                      width: '100%',
+                      padding: '0.5rem 1rem',
+                      background: 'none',
+                      border: 'none',
+                      textAlign: 'left',
+                      cursor: 'pointer',
+                      color: '#dc3545',
+                      borderRadius: '0 0 4px 4px'
+                    }}
+                    onMouseEnter={(e) => (e.target as HTMLElement).style.backgroundColor = '#f8f9fa'}
+                    onMouseLeave={(e) => (e.target as HTMLElement).style.backgroundColor = 'transparent'}
+                  >
+                    Delete
+                  </button>
+                </>
+              )}
             </div>
           )}
         </div>
       ))}
+      {sharingVault && (
+        <ShareVaultModal vault={sharingVault} onClose={() => setSharingVault(null)} />
+      )}
+      {settingsVault && (
+        <VaultSettingsModal vault={settingsVault} onClose={() => setSettingsVault(null)} />
+      )}
     </div>
   );
 };
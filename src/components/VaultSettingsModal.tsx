@@ -0,0 +1,195 @@
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { useAppStore, type Vault } from "../stores/authStore";
+import SharedVaultsService, { type VaultInvite } from "../services/sharedVaults";
+import type { SharePermission, VaultCollaborator } from "../services/database";
+import ContactVerificationService, { type Contact } from "../services/contactVerification";
+import ContactVerification from "./ContactVerification";
+import './VaultSettingsModal.css';
+
+interface VaultSettingsModalProps {
+  vault: Vault;
+  onClose: () => void;
+}
+
+const PERMISSIONS: SharePermission[] = ['read', 'write', 'admin'];
+
+const VaultSettingsModal = ({ vault, onClose }: VaultSettingsModalProps) => {
+  const {
+    user, keyRotation, updateMemberPermissions, revokeMember, resendInvite, cancelInvite, transferOwnership,
+  } = useAppStore();
+  const [members, setMembers] = useState<VaultCollaborator[]>([]);
+  const [invites, setInvites] = useState<VaultInvite[]>([]);
+  const [rotateOnRevoke, setRotateOnRevoke] = useState(true);
+  const [newOwnerId, setNewOwnerId] = useState('');
+  const [verifying, setVerifying] = useState<Contact | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const isOwner = vault.access === 'owner';
+
+  const refresh = useCallback(async () => {
+    try {
+      const [collaborators, vaultInvites] = await Promise.all([
+        SharedVaultsService.getVaultCollaborators(vault.id),
+        SharedVaultsService.getVaultInvites(vault.id),
+      ]);
+      setMembers(collaborators);
+      setInvites(vaultInvites.filter(invite => invite.status === 'pending' || invite.status === 'expired'));
+    } catch (err) {
+      console.error('Error loading vault members:', err);
+      setError('Failed to load members');
+    } finally {
+      setLoading(false);
+    }
+  }, [vault.id]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Run a change, then reload the lists
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePermissionChange = (member: VaultCollaborator, permissions: SharePermission) =>
+    run(() => updateMemberPermissions(vault.id, member, permissions), 'Failed to update permissions');
+
+  const handleRevoke = (member: VaultCollaborator) => {
+    if (!window.confirm(`Remove ${member.email} from "${vault.name}"?`)) return;
+    run(() => revokeMember(vault.id, member, isOwner && rotateOnRevoke), 'Failed to revoke access');
+  };
+
+  const toggleVerify = (member: VaultCollaborator) =>
+    setVerifying(verifying?.userId === member.userId
+      ? null
+      : { userId: member.userId, email: member.email, publicKey: member.publicKey! });
+
+  const keyStatus = (member: VaultCollaborator) =>
+    member.publicKey ? ContactVerificationService.getStatus(user!.id, { userId: member.userId, publicKey: member.publicKey }) : null;
+
+  const handleResend = (invite: VaultInvite) =>
+    run(() => resendInvite(invite), 'Failed to resend invitation');
+
+  const handleCancel = (invite: VaultInvite) =>
+    run(() => cancelInvite(invite.id), 'Failed to cancel invitation');
+
+  const handleTransfer = () => {
+    const member = members.find(m => m.userId === newOwnerId);
+    if (!member) return;
+    if (!window.confirm(`Make ${member.email} the owner of "${vault.name}"? You stay on as an admin and cannot undo this yourself.`)) return;
+    run(async () => {
+      await transferOwnership(vault.id, member.userId, member.email);
+      onClose();
+    }, 'Failed to transfer ownership');
+  };
+
+  return (
+    <div className="modal-overlay" onClick={busy ? undefined : onClose}>
+      <div className="modal-content vault-settings" onClick={(e) => e.stopPropagation()}>
+        <button className="modal-close" onClick={onClose} disabled={busy}>&times;</button>
+        <h2>"{vault.name}" Settings</h2>
+        {error && <div className="error-message">{error}</div>}
+        {keyRotation?.vaultId === vault.id && (
+          <p className="vault-settings-note">Rotating vault key... {keyRotation.done}/{keyRotation.total}</p>
+        )}
+
+        <section>
+          <h3>Members</h3>
+          <div className="member-row">
+            <div className="member-info">
+              <strong>{isOwner ? `${user?.email} (you)` : vault.owner?.email}</strong>
+              <span>Owner</span>
+            </div>
+          </div>
+          {loading && <p className="vault-settings-note">Loading...</p>}
+          {members.map(member => (
+            <Fragment key={member.shareId}>
+              <div className="member-row">
+                <div className="member-info">
+                  <strong>{member.userId === user?.id ? `${member.email} (you)` : member.email}</strong>
+                  <span>
+                    Joined {member.joinedAt.toLocaleDateString()}
+                    {keyStatus(member) === 'verified' && ' · verified'}
+                    {keyStatus(member) === 'changed' && <span className="member-key-changed"> · key changed</span>}
+                  </span>
+                </div>
+                {member.publicKey && member.userId !== user?.id && (
+                  <button onClick={() => toggleVerify(member)} disabled={busy}>Verify</button>
+                )}
+                <select
+                  value={member.permissions}
+                  onChange={(e) => handlePermissionChange(member, e.target.value as SharePermission)}
+                  disabled={busy || member.userId === user?.id}
+                >
+                  {PERMISSIONS.map(permission => (
+                    <option key={permission} value={permission}>{permission}</option>
+                  ))}
+                </select>
+                <button className="member-remove" onClick={() => handleRevoke(member)} disabled={busy}>Remove</button>
+              </div>
+              {verifying?.userId === member.userId && (
+                <ContactVerification contact={verifying} onStatusChange={refresh} />
+              )}
+            </Fragment>
+          ))}
+          {!loading && members.length === 0 && <p className="vault-settings-note">Not shared with anyone yet.</p>}
+          {isOwner && members.length > 0 && (
+            <label className="vault-settings-option">
+              <input type="checkbox" checked={rotateOnRevoke} onChange={(e) => setRotateOnRevoke(e.target.checked)} />
+              Rotate the vault key when removing a member
+            </label>
+          )}
+        </section>
+
+        {invites.length > 0 && (
+          <section>
+            <h3>Invitations</h3>
+            {invites.map(invite => (
+              <div key={invite.id} className="member-row">
+                <div className="member-info">
+                  <strong>{invite.inviteeEmail}</strong>
+                  <span>
+                    {invite.permissions} · {invite.status === 'expired'
+                      ? 'expired'
+                      : `expires ${invite.expiresAt.toLocaleDateString()}`}
+                  </span>
+                </div>
+                <button onClick={() => handleResend(invite)} disabled={busy}>Resend</button>
+                {invite.status === 'pending' && (
+                  <button className="member-remove" onClick={() => handleCancel(invite)} disabled={busy}>Cancel</button>
+                )}
+              </div>
+            ))}
+          </section>
+        )}
+
+        {isOwner && members.length > 0 && (
+          <section>
+            <h3>Transfer Ownership</h3>
+            <div className="member-row">
+              <select value={newOwnerId} onChange={(e) => setNewOwnerId(e.target.value)} disabled={busy}>
+                <option value="">Choose a member</option>
+                {members.map(member => (
+                  <option key={member.userId} value={member.userId}>{member.email}</option>
+                ))}
+              </select>
+              <button onClick={handleTransfer} disabled={busy || !newOwnerId}>Transfer</button>
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VaultSettingsModal;
@@ -1,6 +1,8 @@
 import { useState } from "react";
 import { useAppStore, type Vault, type VaultItem } from "../stores/authStore";
 import SearchBar from "./SearchBar";
+import SharedVaultsService from "../services/sharedVaults";
+import ActivityTimeline from "./ActivityTimeline";
 import './VaultView.css';
 
 interface VaultViewProps {
@@ -8,15 +10,26 @@ interface VaultViewProps {
 }
 
 const VaultView = ({ vault }: VaultViewProps) => {
-  const { copyToClipboard, deleteItem } = useAppStore();
+  const { copyToClipboard, recordItemAccess, deleteItem } = useAppStore();
   const [selectedItem, setSelectedItem] = useState<VaultItem | null>(vault.items[0] || null);
   const [filter, setFilter] = useState('All');
+  const [passwordRevealed, setPasswordRevealed] = useState(false);
 
   const filteredItems = vault.items.filter(item => {
     if (filter === 'All') return true;
     return item.type.toLowerCase() === filter.toLowerCase().replace(' ', '');
   });
 
+  const selectItem = (item: VaultItem) => {
+    setSelectedItem(item);
+    setPasswordRevealed(false);
+  };
+
+  const togglePassword = () => {
+    if (!passwordRevealed) recordItemAccess(selectedItem!.id, 'reveal', 'password');
+    setPasswordRevealed(!passwordRevealed);
+  };
+
   const renderItemDetails = () => {
     if (!selectedItem) return <div className="no-item-selected">Select an item to view details</div>;
 
@@ -32,10 +45,19 @@ const VaultView = ({ vault }: VaultViewProps) => {
           <div className="info-row">
             <span className="info-label">Login</span>
             <span className="info-value">{selectedItem.username}</span>
+            {selectedItem.username && (
+              <button className="info-action-btn" onClick={() => copyToClipboard(selectedItem.username!, 'username', selectedItem.id)}>Copy</button>
+            )}
           </div>
           <div className="info-row">
             <span className="info-label">Password</span>
-            <span className="info-value">••••••••••</span>
+            <span className="info-value">{passwordRevealed ? selectedItem.password : '••••••••••'}</span>
+            {selectedItem.password && (
+              <>
+                <button className="info-action-btn" onClick={togglePassword}>{passwordRevealed ? 'Hide' : 'Show'}</button>
+                <button className="info-action-btn" onClick={() => copyToClipboard(selectedItem.password!, 'password', selectedItem.id)}>Copy</button>
+              </>
+            )}
           </div>
           <div className="info-row">
             <span className="info-label">Login URL</span>
@@ -59,10 +81,14 @@ const VaultView = ({ vault }: VaultViewProps) => {
           </div>
         )}
         
-        <div className="item-details-actions">
-          <button className="edit-btn">Edit Vault Item</button>
-          <button className="delete-btn" onClick={() => deleteItem(selectedItem.id)}>🗑️</button>
-        </div>
+        {SharedVaultsService.canEdit(vault) ? (
+          <div className="item-details-actions">
+            <button className="edit-btn">Edit Vault Item</button>
+            <button className="delete-btn" onClick={() => deleteItem(selectedItem.id)}>🗑️</button>
+          </div>
+        ) : (
+          <p className="read-only-note">Shared with you read-only by {vault.owner?.email}</p>
+        )}
       </div>
     );
   };
@@ -79,7 +105,7 @@ const VaultView = ({ vault }: VaultViewProps) => {
       
       <div className="vault-items-list">
         {filteredItems.map(item => (
-          <div key={item.id} className={`vault-list-item ${selectedItem?.id === item.id ? 'selected' : ''}`} onClick={() => setSelectedItem(item)}>
+          <div key={item.id} className={`vault-list-item ${selectedItem?.id === item.id ? 'selected' : ''}`} onClick={() => selectItem(item)}>
             <img src={`https://via.placeholder.com/32/${item.id.slice(0, 6)}/FFFFFF?text=${item.name.charAt(0)}`} alt={item.name} className="item-icon" />
             <div className="item-summary">
               <h4>{item.name}</h4>
@@ -92,6 +118,8 @@ const VaultView = ({ vault }: VaultViewProps) => {
       
       {/* This would be a modal or a separate panel in a tablet/desktop view */}
       {selectedItem && renderItemDetails()}
+
+      {vault.shared && <ActivityTimeline key={vault.id} vault={vault} />}
     </div>
   );
 };
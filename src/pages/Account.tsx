@@ -1,21 +1,45 @@
 import React, { useState } from 'react';
 import { useAppStore } from '../stores/authStore';
 import { useTheme } from '../components/ThemeProvider';
+import ChangePasswordModal from '../components/ChangePasswordModal';
+import PinSetupModal from '../components/PinSetupModal';
+import RecoveryKitModal from '../components/RecoveryKitModal';
+import PinUnlockService from '../services/pinUnlock';
+import { AUTO_LOCK_TIMEOUT_OPTIONS } from '../services/autoLock';
 import './Account.css';
 
 const AccountPage = () => {
-  const { user, signOut } = useAppStore();
+  const store = useAppStore();
+  const { user, syncQueue, signOut, removePin, lock, autoLock, updateAutoLockSettings } = store;
+  const hasPin = PinUnlockService.isConfigured(store);
   const { theme, setTheme } = useTheme();
   const [notifications, setNotifications] = useState(true);
   const [biometric, setBiometric] = useState(false);
-  const [autoLock, setAutoLock] = useState(true);
+  const [showChangePassword, setShowChangePassword] = useState(false);
+  const [showPinSetup, setShowPinSetup] = useState(false);
+  const [showRecoveryKit, setShowRecoveryKit] = useState(false);
 
   const getUserInitials = (email: string) => {
     return email.split('@')[0].substring(0, 2).toUpperCase();
   };
 
+  const handleRemovePin = () => {
+    if (window.confirm('Remove the PIN from this device? You will need your master password to unlock.')) {
+      removePin();
+    }
+  };
+
   const handleSignOut = async () => {
-    await signOut();
+    // Changes waiting to sync are lost with the local data
+    const discardPending = syncQueue.length > 0;
+    const count = `${syncQueue.length} ${syncQueue.length === 1 ? 'change has' : 'changes have'}`;
+    if (discardPending && !window.confirm(`${count} not synced yet and will be lost. Sign out anyway?`)) return;
+
+    try {
+      await signOut(discardPending);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to sign out');
+    }
   };
 
   return (
@@ -94,6 +118,37 @@ const AccountPage = () => {
                 </div>
               </div>
 
+              <div className="setting-item">
+                <div className="setting-label">
+                  <h4 className="setting-title">PIN Unlock</h4>
+                  <p className="setting-description">
+                    {hasPin ? 'A PIN can unlock the vault on this device' : 'Unlock with a short PIN on this device'}
+                  </p>
+                </div>
+                <div className="setting-control">
+                  <button className="setting-button" onClick={() => setShowPinSetup(true)}>
+                    {hasPin ? 'Change PIN' : 'Set up PIN'}
+                  </button>
+                  {hasPin && (
+                    <button className="setting-button danger" onClick={handleRemovePin}>
+                      Remove
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              <div className="setting-item">
+                <div className="setting-label">
+                  <h4 className="setting-title">Recovery Kit</h4>
+                  <p className="setting-description">Regain access with a recovery key if you forget your master password</p>
+                </div>
+                <div className="setting-control">
+                  <button className="setting-button" onClick={() => setShowRecoveryKit(true)}>
+                    Create New Kit
+                  </button>
+                </div>
+              </div>
+
               <div className="setting-item">
                 <div className="setting-label">
                   <h4 className="setting-title">Biometric Unlock</h4>
@@ -116,8 +171,45 @@ const AccountPage = () => {
                 </div>
                 <div className="setting-control">
                   <div
-                    className={`toggle-switch ${autoLock ? 'active' : ''}`}
-                    onClick={() => setAutoLock(!autoLock)}
+                    className={`toggle-switch ${autoLock.enabled ? 'active' : ''}`}
+                    onClick={() => updateAutoLockSettings({ enabled: !autoLock.enabled })}
+                  >
+                    <div className="toggle-knob"></div>
+                  </div>
+                </div>
+              </div>
+
+              {autoLock.enabled && (
+                <div className="setting-item">
+                  <div className="setting-label">
+                    <h4 className="setting-title">Lock After</h4>
+                    <p className="setting-description">Minutes of inactivity before the vault locks</p>
+                  </div>
+                  <div className="setting-control">
+                    <select
+                      className="setting-select"
+                      value={autoLock.timeoutMinutes}
+                      onChange={(e) => updateAutoLockSettings({ timeoutMinutes: Number(e.target.value) })}
+                    >
+                      {AUTO_LOCK_TIMEOUT_OPTIONS.map(minutes => (
+                        <option key={minutes} value={minutes}>
+                          {minutes} {minutes === 1 ? 'minute' : 'minutes'}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              )}
+
+              <div className="setting-item">
+                <div className="setting-label">
+                  <h4 className="setting-title">Lock When Hidden</h4>
+                  <p className="setting-description">Lock as soon as you switch away from this tab</p>
+                </div>
+                <div className="setting-control">
+                  <div
+                    className={`toggle-switch ${autoLock.lockOnHidden ? 'active' : ''}`}
+                    onClick={() => updateAutoLockSettings({ lockOnHidden: !autoLock.lockOnHidden })}
                   >
                     <div className="toggle-knob"></div>
                   </div>
@@ -134,11 +226,15 @@ const AccountPage = () => {
           </div>
           <div className="account-section-content">
             <div className="action-buttons">
+              <button className="action-button secondary" onClick={() => lock()}>
+                <span>🔐</span>
+                Lock Now
+              </button>
               <button className="action-button secondary">
                 <span>📧</span>
                 Change Email
               </button>
-              <button className="action-button secondary">
+              <button className="action-button secondary" onClick={() => setShowChangePassword(true)}>
                 <span>🔒</span>
                 Change Password
               </button>
@@ -186,6 +282,10 @@ const AccountPage = () => {
           </div>
         </div>
       </div>
+
+      {showChangePassword && <ChangePasswordModal onClose={() => setShowChangePassword(false)} />}
+      {showPinSetup && <PinSetupModal onClose={() => setShowPinSetup(false)} />}
+      {showRecoveryKit && <RecoveryKitModal onClose={() => setShowRecoveryKit(false)} />}
     </div>
   );
 };
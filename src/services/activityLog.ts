@@ -0,0 +1,171 @@
+// Shared vault activity log
+// Item changes, reveals and copies in shared vaults, and every sharing change, are
+// appended to activity_logs. The action and who acted are stored in the clear so the
+// server can enforce who may write; item names, members and permissions go into
+// details encrypted with the vault key, so only vault members can read them.
+
+import EncryptionService from './encryption';
+import DatabaseService, { RecordContext, type SharePermission } from './database';
+import type { Vault } from '../stores/authStore';
+
+export type ActivityAction =
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'reveal'
+  | 'copy'
+  | 'share'
+  | 'join'
+  | 'permission'
+  | 'revoke'
+  | 'transfer';
+
+export interface ActivityDetails {
+  itemName?: string;
+  field?: string; // Which field was revealed or copied
+  member?: string; // Email of the member or invitee a sharing change applies to
+  permissions?: SharePermission;
+}
+
+export interface ActivityEntry {
+  id: string;
+  userId: string;
+  email: string;
+  action: ActivityAction;
+  itemId: string | null;
+  details: ActivityDetails | null; // Null if the details could not be decrypted
+  createdAt: Date;
+}
+
+export interface ActivityFilter {
+  action?: ActivityAction;
+  userId?: string;
+  query?: string;
+}
+
+// Sharing changes are logged even before a vault has members
+const SHARING_ACTIONS: ActivityAction[] = ['share', 'join', 'permission', 'revoke', 'transfer'];
+
+export const ACTIVITY_LABELS: Record<ActivityAction, string> = {
+  create: 'Created item',
+  update: 'Updated item',
+  delete: 'Deleted item',
+  reveal: 'Revealed',
+  copy: 'Copied',
+  share: 'Invited',
+  join: 'Joined vault',
+  permission: 'Changed permission',
+  revoke: 'Removed member',
+  transfer: 'Transferred ownership',
+};
+
+class ActivityLogService {
+  private static instance: ActivityLogService;
+
+  static getInstance(): ActivityLogService {
+    if (!ActivityLogService.instance) {
+      ActivityLogService.instance = new ActivityLogService();
+    }
+    return ActivityLogService.instance;
+  }
+
+  // Append an entry. Logging never fails the action it records, errors are only reported.
+  async record(
+    vault: Vault,
+    userId: string,
+    action: ActivityAction,
+    vaultKey: CryptoKey,
+    details: ActivityDetails = {},
+    itemId?: string
+  ): Promise<void> {
+    if (!vault.shared && !SHARING_ACTIONS.includes(action)) return;
+
+    try {
+      const id = EncryptionService.generateUUID();
+      await DatabaseService.insertActivityLog({
+        id,
+        vaultId: vault.id,
+        userId,
+        action,
+        itemId: itemId ?? null,
+        detailsEncrypted: await EncryptionService.encrypt(JSON.stringify(details), vaultKey, RecordContext.activity(id, vault.id)),
+      });
+    } catch (error) {
+      console.error(`Failed to log ${action} in vault ${vault.id}:`, error);
+    }
+  }
+
+  async getEntries(vaultId: string, vaultKey: CryptoKey): Promise<ActivityEntry[]> {
+    const rows = await DatabaseService.getVaultActivity(vaultId);
+
+    return Promise.all(rows.map(async row => {
+      let details: ActivityDetails | null = null;
+      if (row.detailsEncrypted) {
+        try {
+          details = JSON.parse(await EncryptionService.decrypt(row.detailsEncrypted, vaultKey, RecordContext.activity(row.id, vaultId)));
+        } catch (error) {
+          console.error(`Error decrypting activity entry ${row.id}:`, error);
+        }
+      }
+
+      return {
+        id: row.id,
+        userId: row.userId,
+        email: row.email,
+        action: row.action as ActivityAction,
+        itemId: row.itemId,
+        details,
+        createdAt: row.createdAt,
+      };
+    }));
+  }
+
+  filter(entries: ActivityEntry[], filter: ActivityFilter): ActivityEntry[] {
+    const query = filter.query?.trim().toLowerCase();
+
+    return entries.filter(entry => {
+      if (filter.action && entry.action !== filter.action) return false;
+      if (filter.userId && entry.userId !== filter.userId) return false;
+      if (query && !this.describe(entry).toLowerCase().includes(query) && !entry.email.toLowerCase().includes(query)) return false;
+      return true;
+    });
+  }
+
+  // One line summary of what an entry did
+  describe(entry: ActivityEntry): string {
+    const label = ACTIVITY_LABELS[entry.action] ?? entry.action;
+    const details = entry.details;
+    if (!details) return `${label} (details unavailable)`;
+
+    const parts = [label];
+    if (details.field) parts.push(details.field);
+    if (details.itemName) parts.push(`"${details.itemName}"`);
+    if (details.member) parts.push(details.member);
+    if (details.permissions) parts.push(`as ${details.permissions}`);
+    return parts.join(' ');
+  }
+
+  // CSV for audits, one row per entry with the decrypted details
+  toCsv(entries: ActivityEntry[]): string {
+    const header = ['Time', 'User', 'Action', 'Item', 'Field', 'Member', 'Permission'];
+    const rows = entries.map(entry => [
+      entry.createdAt.toISOString(),
+      entry.email,
+      entry.action,
+      entry.details?.itemName ?? '',
+      entry.details?.field ?? '',
+      entry.details?.member ?? '',
+      entry.details?.permissions ?? '',
+    ]);
+
+    return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n');
+  }
+}
+
+// Quote a CSV field, neutralising values a spreadsheet would run as a formula
+function csvField(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+export default ActivityLogService.getInstance();
@@ -0,0 +1,154 @@
+// Auto-lock engine
+// Locks the vault after a period of inactivity, when the tab is hidden, or when the
+// system wakes from sleep (detected as a gap between timer ticks). Browsers throttle
+// or freeze timers of hidden and cached pages, so gaps are only taken for sleep when the
+// page stayed visible in between; the idle timeout still covers the rest. Locks and user
+// activity are shared with other open tabs over a BroadcastChannel, so an idle tab
+// never locks one that is in use and a lock in one tab locks them all.
+
+export type LockReason = 'manual' | 'idle' | 'hidden' | 'sleep' | 'other-tab';
+
+export interface AutoLockSettings {
+  enabled: boolean;
+  timeoutMinutes: number;
+  lockOnHidden: boolean;
+}
+
+export const DEFAULT_AUTO_LOCK_SETTINGS: AutoLockSettings = {
+  enabled: true,
+  timeoutMinutes: 5,
+  lockOnHidden: false,
+};
+
+export const AUTO_LOCK_TIMEOUT_OPTIONS = [1, 5, 15, 30, 60];
+
+interface AutoLockHandlers {
+  getSettings: () => AutoLockSettings;
+  getLastActivity: () => number | null;
+  isUnlocked: () => boolean;
+  onActivity: () => void;
+  onLock: (reason: LockReason) => void;
+}
+
+type TabMessage = { type: 'lock' } | { type: 'activity' };
+
+const CHECK_INTERVAL_MS = 5000;
+const SLEEP_GAP_MS = 60000; // A tick this late means the machine was suspended
+const ACTIVITY_THROTTLE_MS = 5000;
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+class AutoLockService {
+  private static instance: AutoLockService;
+  private handlers: AutoLockHandlers | null = null;
+  private channel: BroadcastChannel | null = null;
+  private checkTimer: ReturnType<typeof setInterval> | null = null;
+  private lastTick = 0;
+  private hiddenSinceTick = false; // Timers may have been throttled since the last tick
+  private lastActivityReport = 0;
+
+  static getInstance(): AutoLockService {
+    if (!AutoLockService.instance) {
+      AutoLockService.instance = new AutoLockService();
+    }
+    return AutoLockService.instance;
+  }
+
+  // Start watching for lock triggers. Returns a cleanup function.
+  start(handlers: AutoLockHandlers): () => void {
+    this.stop();
+    this.handlers = handlers;
+    this.lastTick = Date.now();
+    this.hiddenSinceTick = false;
+
+    if ('BroadcastChannel' in window) {
+      this.channel = new BroadcastChannel('hushkey-lock');
+      this.channel.onmessage = (event: MessageEvent<TabMessage>) => this.handleTabMessage(event.data);
+    }
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, this.handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    window.addEventListener('pageshow', this.handlePageShow);
+    this.checkTimer = setInterval(this.check, CHECK_INTERVAL_MS);
+
+    return () => this.stop();
+  }
+
+  stop(): void {
+    ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, this.handleActivity));
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    window.removeEventListener('pageshow', this.handlePageShow);
+
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+
+    this.channel?.close();
+    this.channel = null;
+    this.handlers = null;
+  }
+
+  // Tell other tabs to lock as well
+  broadcastLock(): void {
+    this.channel?.postMessage({ type: 'lock' } satisfies TabMessage);
+  }
+
+  private lock(reason: LockReason): void {
+    if (!this.handlers?.isUnlocked()) return;
+    this.handlers.onLock(reason);
+  }
+
+  private check = (): void => {
+    const now = Date.now();
+    const gap = now - this.lastTick;
+    this.lastTick = now;
+    const throttled = this.hiddenSinceTick || document.visibilityState === 'hidden';
+    this.hiddenSinceTick = false;
+
+    if (!this.handlers?.isUnlocked()) return;
+
+    if (!throttled && gap > CHECK_INTERVAL_MS + SLEEP_GAP_MS) {
+      this.lock('sleep');
+      return;
+    }
+
+    const settings = this.handlers.getSettings();
+    const lastActivity = this.handlers.getLastActivity();
+    if (settings.enabled && lastActivity && now - lastActivity > settings.timeoutMinutes * 60000) {
+      this.lock('idle');
+    }
+  };
+
+  private handleActivity = (): void => {
+    const now = Date.now();
+    if (now - this.lastActivityReport < ACTIVITY_THROTTLE_MS) return;
+    this.lastActivityReport = now;
+
+    this.handlers?.onActivity();
+    this.channel?.postMessage({ type: 'activity' } satisfies TabMessage);
+  };
+
+  private handleVisibilityChange = (): void => {
+    if (document.visibilityState !== 'hidden') return;
+    this.hiddenSinceTick = true;
+
+    if (this.handlers?.getSettings().lockOnHidden) {
+      this.lock('hidden');
+    }
+  };
+
+  // A page restored from the back/forward cache had its timers frozen
+  private handlePageShow = (event: PageTransitionEvent): void => {
+    if (event.persisted) this.hiddenSinceTick = true;
+  };
+
+  private handleTabMessage(message: TabMessage): void {
+    if (message.type === 'lock') {
+      this.lock('other-tab');
+    } else if (message.type === 'activity') {
+      this.handlers?.onActivity();
+    }
+  }
+}
+
+export default AutoLockService.getInstance();
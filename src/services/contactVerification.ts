@@ -0,0 +1,114 @@
+// Contact verification
+// Public keys for sharing come from the server, which could hand out its own key in
+// place of a contact's. A safety number is derived from both users' public keys and
+// compared out of band, in person or by scanning its QR code. Contacts the user has
+// compared it with are remembered on this device together with the key they verified,
+// so a key that changes afterwards is caught before another vault key is sealed to it.
+
+import QRCode from 'qrcode';
+
+const STORAGE_PREFIX = 'hushkey-verified-contacts-';
+const SAFETY_NUMBER_VERSION = 'hushkey-safety-number-v1';
+const GROUPS_PER_KEY = 6;
+const GROUP_DIGITS = 5;
+const GROUP_BYTES = 5;
+
+// Someone a vault key may be sealed to, as returned by the server
+export interface Contact {
+  userId: string;
+  email: string;
+  publicKey: string; // Base64
+}
+
+export interface VerifiedContact extends Contact {
+  verifiedAt: string;
+}
+
+export type VerificationStatus = 'verified' | 'unverified' | 'changed';
+
+class ContactVerificationService {
+  private static instance: ContactVerificationService;
+
+  static getInstance(): ContactVerificationService {
+    if (!ContactVerificationService.instance) {
+      ContactVerificationService.instance = new ContactVerificationService();
+    }
+    return ContactVerificationService.instance;
+  }
+
+  // Safety number shared by two users: 12 groups of 5 digits, half from each public key.
+  // The halves are ordered by user id so both sides see the same number.
+  async getSafetyNumber(userId: string, publicKey: string, contact: Contact): Promise<string> {
+    const halves = await Promise.all(
+      [{ userId, publicKey }, contact]
+        .sort((a, b) => a.userId.localeCompare(b.userId))
+        .map(party => this.keyDigits(party.userId, party.publicKey))
+    );
+    return halves.flat().join(' ');
+  }
+
+  // QR code of a safety number as a data URL, rendered locally
+  async createQrCode(safetyNumber: string): Promise<string> {
+    return QRCode.toDataURL(`${SAFETY_NUMBER_VERSION}:${safetyNumber.replace(/ /g, '')}`, {
+      errorCorrectionLevel: 'M',
+      margin: 2,
+      width: 200,
+    });
+  }
+
+  // Whether the contact's current key is the one the user verified
+  getStatus(userId: string, contact: Pick<Contact, 'userId' | 'publicKey'>): VerificationStatus {
+    const verified = this.load(userId)[contact.userId];
+    if (!verified) return 'unverified';
+    return verified.publicKey === contact.publicKey ? 'verified' : 'changed';
+  }
+
+  markVerified(userId: string, contact: Contact): void {
+    const contacts = this.load(userId);
+    contacts[contact.userId] = { ...contact, verifiedAt: new Date().toISOString() };
+    this.save(userId, contacts);
+  }
+
+  removeVerification(userId: string, contactId: string): void {
+    const contacts = this.load(userId);
+    delete contacts[contactId];
+    this.save(userId, contacts);
+  }
+
+  // Refuse to seal to a key other than the verified one. Unverified contacts pass.
+  assertKeyUnchanged(userId: string, contact: Contact): void {
+    if (this.getStatus(userId, contact) === 'changed') {
+      throw new Error(`The security key of ${contact.email} has changed since you verified it. Compare safety numbers again before sharing.`);
+    }
+  }
+
+  // Six groups of five digits from a SHA-256 of the user id and public key
+  private async keyDigits(userId: string, publicKey: string): Promise<string[]> {
+    const input = new TextEncoder().encode(`${SAFETY_NUMBER_VERSION}|${userId}|${publicKey}`);
+    const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', input));
+
+    const groups: string[] = [];
+    for (let i = 0; i < GROUPS_PER_KEY; i++) {
+      let value = 0;
+      for (const byte of hash.subarray(i * GROUP_BYTES, (i + 1) * GROUP_BYTES)) {
+        value = (value * 256 + byte) % 10 ** GROUP_DIGITS;
+      }
+      groups.push(value.toString().padStart(GROUP_DIGITS, '0'));
+    }
+    return groups;
+  }
+
+  private load(userId: string): Record<string, VerifiedContact> {
+    try {
+      return JSON.parse(localStorage.getItem(`${STORAGE_PREFIX}${userId}`) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  private save(userId: string, contacts: Record<string, VerifiedContact>): void {
+    localStorage.setItem(`${STORAGE_PREFIX}${userId}`, JSON.stringify(contacts));
+  }
+}
+
+export default ContactVerificationService.getInstance();
@@ -0,0 +1,159 @@
+// Crypto worker pool
+// Bulk decryption runs in Web Workers so large vaults don't block the UI. Vault keys
+// are non-extractable CryptoKeys, which can be posted to a worker without exposing
+// their bytes. Falls back to the main thread where workers are unavailable or fail.
+
+import { decryptEnvelope } from './envelope';
+
+export interface DecryptJob {
+  ciphertext: string;
+  aad: string;
+  allowLegacy: boolean; // See decryptEnvelope
+}
+
+export type DecryptResult = { plaintext: string } | { error: string };
+
+// Messages exchanged with decrypt.worker.ts
+export interface DecryptRequest {
+  id: number;
+  key: CryptoKey;
+  jobs: DecryptJob[];
+}
+
+export interface DecryptResponse {
+  id: number;
+  results: DecryptResult[];
+}
+
+interface Task {
+  request: DecryptRequest;
+  resolve: (results: DecryptResult[]) => void;
+  reject: (error: Error) => void;
+}
+
+const BATCH_SIZE = 100;
+const MAX_WORKERS = 4;
+
+class CryptoWorkerPool {
+  private static instance: CryptoWorkerPool;
+  private workers: Worker[] = [];
+  private idle: Worker[] = [];
+  private active = new Map<Worker, Task>();
+  private queue: Task[] = [];
+  private nextId = 1;
+  private disabled = false;
+
+  static getInstance(): CryptoWorkerPool {
+    if (!CryptoWorkerPool.instance) {
+      CryptoWorkerPool.instance = new CryptoWorkerPool();
+    }
+    return CryptoWorkerPool.instance;
+  }
+
+  // Decrypt a list of envelopes with one key. Results come back in job order; a failed
+  // job yields an error entry instead of failing the whole batch.
+  async decryptBatch(key: CryptoKey, jobs: DecryptJob[], onProgress?: (done: number) => void): Promise<DecryptResult[]> {
+    const chunks: DecryptJob[][] = [];
+    for (let i = 0; i < jobs.length; i += BATCH_SIZE) {
+      chunks.push(jobs.slice(i, i + BATCH_SIZE));
+    }
+
+    let done = 0;
+    const results = await Promise.all(chunks.map(async chunk => {
+      const chunkResults = await this.run(key, chunk);
+      done += chunk.length;
+      onProgress?.(done);
+      return chunkResults;
+    }));
+
+    return results.flat();
+  }
+
+  private async run(key: CryptoKey, jobs: DecryptJob[]): Promise<DecryptResult[]> {
+    if (!this.ensureWorkers()) return decryptJobs(key, jobs);
+
+    try {
+      return await new Promise<DecryptResult[]>((resolve, reject) => {
+        this.queue.push({ request: { id: this.nextId++, key, jobs }, resolve, reject });
+        this.dispatch();
+      });
+    } catch (error) {
+      console.error('Crypto worker failed, decrypting on the main thread:', error);
+      return decryptJobs(key, jobs);
+    }
+  }
+
+  // Start the workers on first use. Returns false if they cannot be used.
+  private ensureWorkers(): boolean {
+    if (this.disabled || typeof Worker === 'undefined') return false;
+    if (this.workers.length > 0) return true;
+
+    const size = Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1));
+
+    try {
+      for (let i = 0; i < size; i++) {
+        const worker = new Worker(new URL('../workers/decrypt.worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (event: MessageEvent<DecryptResponse>) => this.handleResult(worker, event.data);
+        worker.onerror = (event) => this.handleFailure(new Error(event.message || 'Crypto worker error'));
+        this.workers.push(worker);
+        this.idle.push(worker);
+      }
+      return true;
+    } catch (error) {
+      console.error('Error starting crypto workers:', error);
+      this.handleFailure(error instanceof Error ? error : new Error('Crypto workers unavailable'));
+      return false;
+    }
+  }
+
+  private dispatch(): void {
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.pop()!;
+      const task = this.queue.shift()!;
+      this.active.set(worker, task);
+      worker.postMessage(task.request);
+    }
+  }
+
+  private handleResult(worker: Worker, response: DecryptResponse): void {
+    const task = this.active.get(worker);
+    this.active.delete(worker);
+    this.idle.push(worker);
+
+    if (task && task.request.id === response.id) {
+      task.resolve(response.results);
+    }
+    this.dispatch();
+  }
+
+  // A broken worker disables the pool; pending tasks are retried on the main thread
+  private handleFailure(error: Error): void {
+    this.disabled = true;
+    this.workers.forEach(worker => worker.terminate());
+
+    const tasks = [...this.active.values(), ...this.queue];
+    this.workers = [];
+    this.idle = [];
+    this.active.clear();
+    this.queue = [];
+
+    tasks.forEach(task => task.reject(error));
+  }
+}
+
+// Shared by the worker and the main-thread fallback
+export async function decryptJobs(key: CryptoKey, jobs: DecryptJob[]): Promise<DecryptResult[]> {
+  const results: DecryptResult[] = [];
+
+  for (const job of jobs) {
+    try {
+      results.push({ plaintext: await decryptEnvelope(job.ciphertext, key, job.aad, job.allowLegacy) });
+    } catch (error) {
+      results.push({ error: error instanceof Error ? error.message : 'Decryption failed' });
+    }
+  }
+
+  return results;
+}
+
+export default CryptoWorkerPool.getInstance();
@@ -1,10 +1,250 @@
+import type { PostgrestError, RealtimeChannel, RealtimePostgresChangesPayload, REALTIME_SUBSCRIBE_STATES } from '@supabase/supabase-js';
 import { supabase } from '../supabaseClient';
-import EncryptionService from './encryption';
+import EncryptionService, { LEGACY_KDF_PARAMS, type EnvelopeContext, type KdfParams, type KeyMaterial } from './encryption';
+import CryptoWorkerPool, { decryptJobs } from './cryptoWorkerPool';
+import VaultManifestService, { type ManifestCheck, type VaultManifest } from './vaultManifest';
+import IndexedDBService, { type CachedItem } from './indexedDB';
+import ItemMergeService, { type ItemConflict, type ItemFields } from './itemMerge';
 import type { Vault, VaultItem } from '../stores/authStore';
 
+// How the Supabase Auth password is produced: 'legacy' accounts still send the raw
+// master password, 'derived-v1' accounts send EncryptionService.deriveLoginHash
+export type AuthScheme = 'legacy' | 'derived-v1';
+
+export const CURRENT_AUTH_SCHEME: AuthScheme = 'derived-v1';
+
+export interface UserProfile {
+  salt: Uint8Array;
+  kdf: KdfParams;
+  keyCheckEncrypted: string | null; // Null for profiles created before key checks
+  previousKeyEncrypted: string | null; // Set while a master key change is in progress
+  authUpdatePending: boolean; // Set until the auth password matches a changed master password
+  authScheme: AuthScheme; // What is sent as the auth password
+  recovery: RecoveryKeyData | null; // Null until a recovery kit has been created
+  keypair: KeypairData | null; // Null for accounts created before sharing keys
+}
+
+// Recovery key material stored in user_profiles (see RecoveryService)
+export interface RecoveryKeyData {
+  masterKeyEncrypted: string; // Master key wrapped under the recovery key
+  recoveryKeyEncrypted: string; // Recovery key wrapped under the master key, to re-wrap on key changes
+}
+
+// Sharing keypair stored in user_profiles (see KeypairService)
+export interface KeypairData {
+  publicKey: string; // Base64 raw P-256 public key
+  privateKeyEncrypted: string; // PKCS#8 private key wrapped under the master key
+}
+
+export interface WrappedVaultKey {
+  id: string;
+  nameEncrypted: string;
+  vaultKeyEncrypted: string | null; // Null for vaults created before per-vault keys
+  pendingVaultKeyEncrypted: string | null; // Set while a key rotation is in progress
+}
+
+// One encrypted column of one row, as read from the database. Used to re-encrypt
+// records in place: legacy format upgrades and vault key rotation.
+export interface CiphertextRecord {
+  table: 'vaults' | 'items' | 'item_history' | 'activity_logs';
+  column: 'vault_key_encrypted' | 'name_encrypted' | 'manifest_encrypted' | 'data_encrypted' | 'details_encrypted';
+  id: string;
+  vaultId: string;
+  itemId?: string;
+  ciphertext: string;
+}
+
+// Envelope contexts binding each ciphertext to the record it belongs to, so a blob
+// copied into another row or vault fails to decrypt
+export const RecordContext = {
+  vaultKey: (vaultId: string): EnvelopeContext => ({ keyId: 'master', aad: `vault-key:${vaultId}` }),
+  vaultName: (vaultId: string): EnvelopeContext => ({ keyId: 'vault', aad: `vault-name:${vaultId}` }),
+  manifest: (vaultId: string): EnvelopeContext => ({ keyId: 'vault', aad: `manifest:${vaultId}` }),
+  item: (itemId: string, vaultId: string): EnvelopeContext => ({ keyId: 'vault', aad: `item:${itemId}|vault:${vaultId}` }),
+  activity: (entryId: string, vaultId: string): EnvelopeContext => ({ keyId: 'vault', aad: `activity:${entryId}|vault:${vaultId}` }),
+  mutation: (mutationId: string, vaultId: string): EnvelopeContext => ({ keyId: 'vault', aad: `mutation:${mutationId}|vault:${vaultId}` }),
+  forRecord: (record: CiphertextRecord): EnvelopeContext => {
+    if (record.column === 'vault_key_encrypted') return RecordContext.vaultKey(record.vaultId);
+    if (record.column === 'name_encrypted') return RecordContext.vaultName(record.vaultId);
+    if (record.column === 'manifest_encrypted') return RecordContext.manifest(record.vaultId);
+    if (record.column === 'details_encrypted') return RecordContext.activity(record.id, record.vaultId);
+    return RecordContext.item(record.itemId ?? record.id, record.vaultId);
+  },
+};
+
+// Key state of a vault, read when rotating its key (see VaultKeyRotationService)
+export interface VaultKeyState {
+  nameEncrypted: string;
+  manifestEncrypted: string | null;
+  vaultKeyEncrypted: string | null;
+  pendingVaultKeyEncrypted: string | null; // New key while a rotation is in progress
+  keyVersion: number;
+}
+
+// Result of checking a vault's items against its manifest (see VaultManifestService)
+export interface VaultIntegrity extends ManifestCheck {
+  vaultId: string;
+  seq: number; // Manifest sequence number after the check
+  manifestUnreadable: boolean; // The manifest failed to decrypt, it was replaced or corrupted
+}
+
+export type SharePermission = 'read' | 'write' | 'admin';
+
+export type InviteStatus = 'pending' | 'accepted' | 'declined' | 'expired' | 'cancelled';
+
+// A row of vault_invites. The vault key and name are sealed to the invitee.
+export interface VaultInviteRecord {
+  id: string;
+  vaultId: string;
+  inviterId: string;
+  inviterEmail: string;
+  inviteeId: string;
+  inviteeEmail: string;
+  permissions: SharePermission;
+  sharedKeyEncrypted: string;
+  vaultNameEncrypted: string;
+  status: InviteStatus;
+  expiresAt: Date;
+  respondedAt: Date | null;
+  createdAt: Date;
+}
+
+// A vault shared with the signed in user, as stored in shared_vaults
+export interface VaultShare {
+  shareId: string;
+  vaultId: string;
+  owner: { id: string; email: string };
+  permissions: SharePermission;
+  sharedKeyEncrypted: string | null; // Null if the key could not be re-sealed after a rotation
+}
+
+// A vault shared with the signed in user, with the vault key opened from the share
+export interface SharedVaultKey {
+  vaultId: string;
+  vaultKey: CryptoKey;
+  sharedKeyEncrypted: string;
+  owner: { id: string; email: string };
+  permissions: SharePermission;
+}
+
+// A member of a shared vault as listed to its owner and admins
+export interface VaultCollaborator {
+  shareId: string;
+  userId: string;
+  email: string;
+  permissions: SharePermission;
+  publicKey: string | null;
+  joinedAt: Date;
+}
+
+// A row of activity_logs with the email of whoever acted (see ActivityLogService)
+export interface ActivityLogRecord {
+  id: string;
+  vaultId: string;
+  userId: string;
+  email: string;
+  action: string;
+  itemId: string | null;
+  detailsEncrypted: string | null;
+  createdAt: Date;
+}
+
+// A member of a shared vault, to wrap the vault key for
+export interface VaultMember {
+  shareId: string;
+  userId: string;
+  publicKey: string | null; // Null if the member has no sharing keypair yet
+}
+
+// Columns read for items. type and tags are only set on rows from before they moved
+// into the encrypted payload.
+export interface ItemRow {
+  id: string;
+  vault_id: string;
+  type: VaultItem['type'] | null;
+  data_encrypted: string;
+  created_at: string;
+  updated_at: string;
+  tags: string[] | null;
+}
+
+// Columns of item_tombstones
+export interface TombstoneRow {
+  item_id: string;
+  vault_id: string;
+  deleted_at: string;
+}
+
+// Columns of vaults used by realtime updates
+export interface VaultChangeRow {
+  id: string;
+  name_encrypted: string;
+  key_version: number;
+}
+
+// Item rows of the loaded vaults as of now. changed holds the ids of rows that came
+// from the server on this load, the rest were read from the local cache.
+interface ItemSync {
+  rows: ItemRow[];
+  changed: Set<string>;
+  fullVaultIds: string[]; // Vaults fetched in full rather than since their cursor
+  deletedIds: string[];
+  cursors: Record<string, string | null>;
+}
+
+// Columns of vault_invites
+interface VaultInviteRow {
+  id: string;
+  vault_id: string;
+  inviter_id: string;
+  inviter_email: string;
+  invitee_id: string;
+  invitee_email: string;
+  permissions: SharePermission;
+  shared_key_encrypted: string;
+  vault_name_encrypted: string;
+  status: InviteStatus;
+  expires_at: string;
+  responded_at: string | null;
+  created_at: string;
+}
+
+// Decrypted items of one or more vaults. plaintextMetadata lists items whose type or
+// tags are still stored in plaintext columns (see encryptItemMetadata).
+interface DecryptedItems {
+  items: VaultItem[];
+  failedCount: number;
+  legacyRecords: CiphertextRecord[];
+  plaintextMetadata: CiphertextRecord[];
+}
+
+// Reports decrypted items against the total while vaults load
+export type LoadProgressCallback = (done: number, total: number) => void;
+
+// Times an item update is merged again after losing a race with another write
+const MAX_UPDATE_ATTEMPTS = 3;
+
+// updated_at is set when a write starts, so a write committing after a load can carry
+// a timestamp before its cursor. Changes are fetched from a little before the cursor.
+const CURSOR_OVERLAP_MS = 60 * 1000;
+
+// Older cursors fall back to a full load, so item tombstones can be pruned after this
+const MAX_CURSOR_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Rows per request when reading a whole table section. Matches the API's default
+// max-rows, a shorter page means there is nothing left.
+const PAGE_SIZE = 1000;
+
 // Database service for handling all Supabase operations
 class DatabaseService {
   private static instance: DatabaseService;
+  private upgradeInProgress = false;
+  // Vaults that refuse the legacy ciphertext format. Only ever grows: a vault the
+  // server or the local cache once reported as retired stays retired.
+  private legacyFormatRetired = new Set<string>();
+  // Version of each loaded vault's key. Item writes carry it and the server refuses
+  // them once the key has been rotated (see check_item_key_version).
+  private keyVersions = new Map<string, number>();
 
   static getInstance(): DatabaseService {
     if (!DatabaseService.instance) {
@@ -14,7 +254,7 @@ class DatabaseService {
   }
 
   // User Profile operations
-  async saveUserProfile(userId: string, salt: Uint8Array): Promise<void> {
+  async saveUserProfile(userId: string, salt: Uint8Array, kdf: KdfParams, keyCheckEncrypted: string): Promise<void> {
     const saltBase64 = EncryptionService.toBase64(salt);
 
     const { error } = await supabase
@@ -22,128 +262,1343 @@ class DatabaseService {
       .upsert({
         user_id: userId,
         salt: saltBase64,
+        ...this.toKdfColumns(kdf),
+        key_check_encrypted: keyCheckEncrypted,
+        auth_scheme: CURRENT_AUTH_SCHEME,
+      });
+
+    if (error) {
+      console.error('Error saving user profile:', error);
+      throw error;
+    }
+  }
+
+  async getUserProfile(userId: string): Promise<UserProfile | null> {
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select('salt, kdf_algorithm, kdf_memory, kdf_ops, kdf_version, key_check_encrypted, previous_key_encrypted, auth_update_pending, auth_scheme, recovery_master_key_encrypted, recovery_key_encrypted, public_key, private_key_encrypted')
+      .eq('user_id', userId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null; // No profile found
+      console.error('Error getting user profile:', error);
+      throw error;
+    }
+
+    return {
+      salt: EncryptionService.fromBase64(data.salt),
+      // Profiles created before KDF settings were stored used PBKDF2
+      kdf: data.kdf_algorithm
+        ? {
+            algorithm: data.kdf_algorithm,
+            memory: data.kdf_memory,
+            ops: data.kdf_ops,
+            version: data.kdf_version,
+          }
+        : LEGACY_KDF_PARAMS,
+      keyCheckEncrypted: data.key_check_encrypted,
+      previousKeyEncrypted: data.previous_key_encrypted,
+      authUpdatePending: data.auth_update_pending ?? false,
+      authScheme: data.auth_scheme ?? 'legacy',
+      recovery: data.recovery_master_key_encrypted && data.recovery_key_encrypted
+        ? {
+            masterKeyEncrypted: data.recovery_master_key_encrypted,
+            recoveryKeyEncrypted: data.recovery_key_encrypted,
+          }
+        : null,
+      keypair: data.public_key && data.private_key_encrypted
+        ? {
+            publicKey: data.public_key,
+            privateKeyEncrypted: data.private_key_encrypted,
+          }
+        : null,
+    };
+  }
+
+  // Switch the profile to a new master key derivation. previousKeyEncrypted holds the
+  // old master key wrapped under the new one until every vault key has been re-wrapped.
+  // Recovery data and the private key are re-wrapped in the same update so they always
+  // match the master key.
+  async updateKeyDerivation(
+    userId: string,
+    salt: Uint8Array,
+    kdf: KdfParams,
+    keyCheckEncrypted: string,
+    previousKeyEncrypted: string | null,
+    options: { authUpdatePending?: boolean; recovery?: RecoveryKeyData; privateKeyEncrypted?: string } = {}
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({
+        salt: EncryptionService.toBase64(salt),
+        ...this.toKdfColumns(kdf),
+        key_check_encrypted: keyCheckEncrypted,
+        previous_key_encrypted: previousKeyEncrypted,
+        ...(options.authUpdatePending !== undefined && { auth_update_pending: options.authUpdatePending }),
+        ...(options.recovery && this.toRecoveryColumns(options.recovery)),
+        ...(options.privateKeyEncrypted && { private_key_encrypted: options.privateKeyEncrypted }),
+      })
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error updating key derivation:', error);
+      throw error;
+    }
+  }
+
+  async saveRecoveryKey(userId: string, recovery: RecoveryKeyData): Promise<void> {
+    const { error } = await supabase
+      .from('user_profiles')
+      .update(this.toRecoveryColumns(recovery))
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error saving recovery key:', error);
+      throw error;
+    }
+  }
+
+  private toRecoveryColumns(recovery: RecoveryKeyData) {
+    return {
+      recovery_master_key_encrypted: recovery.masterKeyEncrypted,
+      recovery_key_encrypted: recovery.recoveryKeyEncrypted,
+    };
+  }
+
+  // Backfill the key check for profiles created before it existed
+  // Store a sharing keypair unless the profile already has one. Returns the keypair
+  // that is actually stored.
+  async saveKeypair(userId: string, keypair: KeypairData): Promise<KeypairData> {
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .update({ public_key: keypair.publicKey, private_key_encrypted: keypair.privateKeyEncrypted })
+      .eq('user_id', userId)
+      .is('public_key', null)
+      .select('user_id');
+
+    if (error) {
+      console.error('Error saving keypair:', error);
+      throw error;
+    }
+
+    if (data.length > 0) return keypair;
+
+    const profile = await this.getUserProfile(userId);
+    if (!profile?.keypair) throw new Error('Keypair could not be saved');
+    return profile.keypair;
+  }
+
+  async saveKeyCheck(userId: string, keyCheckEncrypted: string): Promise<void> {
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({ key_check_encrypted: keyCheckEncrypted })
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error saving key check:', error);
+      throw error;
+    }
+  }
+
+  async clearPreviousKey(userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({ previous_key_encrypted: null })
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error clearing previous key:', error);
+      throw error;
+    }
+  }
+
+  async setAuthScheme(userId: string, authScheme: AuthScheme): Promise<void> {
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({ auth_scheme: authScheme })
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error updating auth scheme:', error);
+      throw error;
+    }
+  }
+
+  async clearAuthUpdatePending(userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({ auth_update_pending: false })
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error clearing auth update flag:', error);
+      throw error;
+    }
+  }
+
+  private toKdfColumns(kdf: KdfParams) {
+    return {
+      kdf_algorithm: kdf.algorithm,
+      kdf_memory: kdf.memory,
+      kdf_ops: kdf.ops,
+      kdf_version: kdf.version,
+    };
+  }
+
+  // Device management
+  async saveDevice(userId: string, deviceId: string, deviceName?: string): Promise<void> {
+    const { error } = await supabase
+      .from('devices')
+      .upsert({
+        user_id: userId,
+        device_id: deviceId,
+        device_name: deviceName || navigator.userAgent,
+        last_seen: new Date().toISOString(),
+      });
+
+    if (error) {
+      console.error('Error saving device:', error);
+      throw error;
+    }
+  }
+
+  async updateDeviceLastSeen(deviceId: string): Promise<void> {
+    const { error } = await supabase
+      .from('devices')
+      .update({ last_seen: new Date().toISOString() })
+      .eq('device_id', deviceId);
+
+    if (error) {
+      console.error('Error updating device last seen:', error);
+    }
+  }
+
+  // PIN unlock keys (see PinUnlockService). The server half is only handed out through
+  // security definer functions that count wrong PINs.
+  async registerPinUnlock(deviceId: string, verifier: string, secret: string): Promise<void> {
+    const { error } = await supabase.rpc('register_pin_unlock', {
+      p_device_id: deviceId,
+      p_verifier: verifier,
+      p_secret: secret,
+    });
+
+    if (error) {
+      console.error('Error registering PIN unlock:', error);
+      throw error;
+    }
+  }
+
+  // The secret for the right PIN, otherwise the attempts left (null when the device has
+  // no PIN unlock key)
+  async releasePinUnlock(deviceId: string, verifier: string): Promise<{ secret: string | null; attemptsLeft: number | null }> {
+    const { data, error } = await supabase
+      .rpc('release_pin_unlock', { p_device_id: deviceId, p_verifier: verifier })
+      .single();
+
+    if (error) {
+      console.error('Error releasing PIN unlock:', error);
+      throw error;
+    }
+
+    const row = data as { pin_secret: string | null; attempts_left: number | null };
+    return { secret: row.pin_secret, attemptsLeft: row.attempts_left };
+  }
+
+  async deletePinUnlock(deviceId: string): Promise<void> {
+    const { error } = await supabase
+      .from('pin_unlock_keys')
+      .delete()
+      .eq('device_id', deviceId);
+
+    if (error) {
+      console.error('Error deleting PIN unlock:', error);
+      throw error;
+    }
+  }
+
+  // Vault operations
+  // Every vault has its own random key, stored wrapped under the owner's master key.
+  // Vault names and items are encrypted with the vault key, never with the master key.
+  async wrapVaultKey(vaultId: string, vaultKey: Uint8Array, masterKey: KeyMaterial): Promise<string> {
+    return EncryptionService.encrypt(EncryptionService.toBase64(vaultKey), masterKey, RecordContext.vaultKey(vaultId));
+  }
+
+  // Raw vault key bytes, for re-wrapping only. Callers wipe them when done.
+  async unwrapVaultKeyBytes(vaultId: string, vaultKeyEncrypted: string, masterKey: KeyMaterial): Promise<Uint8Array> {
+    const vaultKeyBase64 = await EncryptionService.decrypt(vaultKeyEncrypted, masterKey, RecordContext.vaultKey(vaultId), this.acceptsLegacyFormat(vaultId));
+    return EncryptionService.fromBase64(vaultKeyBase64);
+  }
+
+  async unwrapVaultKey(vaultId: string, vaultKeyEncrypted: string, masterKey: KeyMaterial): Promise<CryptoKey> {
+    const vaultKeyBytes = await this.unwrapVaultKeyBytes(vaultId, vaultKeyEncrypted, masterKey);
+    try {
+      return await EncryptionService.importKey(vaultKeyBytes);
+    } finally {
+      EncryptionService.wipe(vaultKeyBytes);
+    }
+  }
+
+  // Vaults handed to the user that they have not taken over yet are left out, their
+  // key is sealed to the user's keypair rather than wrapped (see completeOwnershipTransfer)
+  async getWrappedVaultKeys(userId: string): Promise<WrappedVaultKey[]> {
+    const { data, error } = await supabase
+      .from('vaults')
+      .select('id, name_encrypted, vault_key_encrypted, pending_vault_key_encrypted')
+      .eq('user_id', userId)
+      .is('owner_key_sealed', null);
+
+    if (error) {
+      console.error('Error getting vault keys:', error);
+      throw error;
+    }
+
+    return data.map(row => ({
+      id: row.id,
+      nameEncrypted: row.name_encrypted,
+      vaultKeyEncrypted: row.vault_key_encrypted,
+      pendingVaultKeyEncrypted: row.pending_vault_key_encrypted,
+    }));
+  }
+
+  async updateWrappedVaultKey(vaultId: string, vaultKeyEncrypted: string): Promise<void> {
+    const { error } = await supabase
+      .from('vaults')
+      .update({ vault_key_encrypted: vaultKeyEncrypted })
+      .eq('id', vaultId);
+
+    if (error) {
+      console.error('Error updating vault key:', error);
+      throw error;
+    }
+  }
+
+  // Re-wrap the key of a rotation in progress, after the master key changed
+  async updatePendingVaultKey(vaultId: string, pendingVaultKeyEncrypted: string): Promise<void> {
+    const { error } = await supabase
+      .from('vaults')
+      .update({ pending_vault_key_encrypted: pendingVaultKeyEncrypted })
+      .eq('id', vaultId)
+      .not('pending_vault_key_encrypted', 'is', null);
+
+    if (error) {
+      console.error('Error updating pending vault key:', error);
+      throw error;
+    }
+  }
+
+  async createVault(userId: string, name: string, masterKey: CryptoKey): Promise<{ vault: Vault; vaultKey: CryptoKey }> {
+    const vaultId = EncryptionService.generateUUID();
+    const vaultKeyBytes = EncryptionService.generateRandomKey();
+    const vaultKeyEncrypted = await this.wrapVaultKey(vaultId, vaultKeyBytes, masterKey);
+    const vaultKey = await EncryptionService.importKey(vaultKeyBytes);
+    EncryptionService.wipe(vaultKeyBytes);
+    const encryptedName = await EncryptionService.encrypt(name, vaultKey, RecordContext.vaultName(vaultId));
+    const manifestEncrypted = await this.sealManifest(vaultId, VaultManifestService.create(), vaultKey);
+
+    const { error } = await supabase
+      .from('vaults')
+      .insert({
+        id: vaultId,
+        user_id: userId,
+        name_encrypted: encryptedName,
+        manifest_encrypted: manifestEncrypted,
+        vault_key_encrypted: vaultKeyEncrypted,
+        legacy_format_retired: true,
       });
 
     if (error) {
-      console.error('Error saving user profile:', error);
-      throw error;
+      console.error('Error creating vault:', error);
+      throw error;
+    }
+
+    this.legacyFormatRetired.add(vaultId);
+    this.keyVersions.set(vaultId, 1);
+
+    const now = new Date().toISOString();
+    await this.updateCache(IndexedDBService.saveVault({
+      id: vaultId,
+      userId,
+      nameEncrypted: encryptedName,
+      vaultKeyEncrypted,
+      sharedKeyEncrypted: null,
+      manifestEncrypted,
+      createdAt: now,
+      updatedAt: now,
+    }));
+
+    return {
+      vault: {
+        id: vaultId,
+        name, // Keep decrypted for UI
+        items: [],
+        createdAt: new Date(),
+        access: 'owner',
+        shared: false,
+      },
+      vaultKey,
+    };
+  }
+
+  // failedCount is the number of vaults and items that could not be decrypted,
+  // legacyRecords the ones still stored in the legacy ciphertext format,
+  // plaintextMetadata the items with unencrypted type or tags. Items are
+  // fetched in one query and decrypted on the crypto worker pool. pendingRotations
+  // lists vaults whose key rotation was interrupted; their records are read with
+  // either key until it is resumed. Every vault is checked against its manifest,
+  // knownManifestSeqs holding the manifest sequence numbers this device has seen.
+  // Vaults shared with the user are loaded alongside their own with the keys in
+  // sharedVaults (see SharedVaultsService.getSharedVaults). Only items changed since the
+  // last load are fetched and decrypted; the others are taken from loadedVaults, the
+  // vaults already decrypted in memory, or else decrypted from the local cache.
+  async getVaults(
+    userId: string,
+    masterKey: CryptoKey,
+    onProgress?: LoadProgressCallback,
+    knownManifestSeqs: Record<string, number> = {},
+    sharedVaults: SharedVaultKey[] = [],
+    loadedVaults: Vault[] = []
+  ): Promise<{
+    vaults: Vault[];
+    vaultKeys: Record<string, CryptoKey>;
+    failedCount: number;
+    legacyRecords: CiphertextRecord[];
+    plaintextMetadata: CiphertextRecord[];
+    pendingRotations: string[];
+    integrity: VaultIntegrity[];
+  }> {
+    const sharedIds = sharedVaults.map(share => share.vaultId);
+    let query = supabase
+      .from('vaults')
+      .select('id, name_encrypted, manifest_encrypted, vault_key_encrypted, pending_vault_key_encrypted, owner_key_sealed, legacy_format_retired, key_version, created_at, updated_at');
+    query = sharedIds.length > 0
+      ? query.or(`user_id.eq.${userId},id.in.(${sharedIds.join(',')})`)
+      : query.eq('user_id', userId);
+
+    const { data: vaultData, error: vaultsError } = await query;
+
+    if (vaultsError) {
+      console.error('Error getting vaults:', vaultsError);
+      throw vaultsError;
+    }
+
+    // Own vaults that have members
+    const { data: ownedShares, error: sharesError } = await supabase
+      .from('shared_vaults')
+      .select('vault_id')
+      .eq('owner_id', userId);
+
+    if (sharesError) {
+      console.error('Error getting vault shares:', sharesError);
+      throw sharesError;
+    }
+
+    const sharedOwnedIds = new Set(ownedShares.map(row => row.vault_id));
+
+    const cachedVaults = await IndexedDBService.getVaults(userId).catch(() => []);
+    for (const row of cachedVaults) {
+      if (row.legacyFormatRetired) this.legacyFormatRetired.add(row.id);
+    }
+    for (const row of vaultData) {
+      if (row.legacy_format_retired) this.legacyFormatRetired.add(row.id);
+      this.keyVersions.set(row.id, row.key_version ?? 1);
+    }
+
+    const vaults: Vault[] = [];
+    const vaultKeys: Record<string, CryptoKey> = {};
+    const pendingKeys: Record<string, CryptoKey> = {};
+    const legacyRecords: CiphertextRecord[] = [];
+    const plaintextMetadata: CiphertextRecord[] = [];
+    let failedCount = 0;
+
+    for (const vaultRow of vaultData) {
+      const share = sharedVaults.find(s => s.vaultId === vaultRow.id);
+
+      try {
+        if (!share && vaultRow.owner_key_sealed) {
+          throw new Error('Vault ownership transfer has not been completed');
+        }
+
+        // Vaults not yet adopted (see adoptLegacyVaultKey) are still encrypted with the master key.
+        // Only the owner can read a pending key, members get the new key once the rotation completes.
+        const vaultKey = share
+          ? share.vaultKey
+          : vaultRow.vault_key_encrypted
+            ? await this.unwrapVaultKey(vaultRow.id, vaultRow.vault_key_encrypted, masterKey)
+            : masterKey;
+        const pendingKey = !share && vaultRow.pending_vault_key_encrypted
+          ? await this.unwrapVaultKey(vaultRow.id, vaultRow.pending_vault_key_encrypted, masterKey)
+          : undefined;
+
+        const nameContext = RecordContext.vaultName(vaultRow.id);
+        const allowLegacy = this.acceptsLegacyFormat(vaultRow.id);
+        const decryptedName = await EncryptionService.decrypt(vaultRow.name_encrypted, vaultKey, nameContext, allowLegacy)
+          .catch(error => {
+            if (!pendingKey) throw error;
+            return EncryptionService.decrypt(vaultRow.name_encrypted, pendingKey, nameContext, allowLegacy);
+          });
+
+        // The vault row itself is only upgraded by its owner
+        if (!share && vaultRow.vault_key_encrypted && EncryptionService.isLegacyFormat(vaultRow.vault_key_encrypted)) {
+          legacyRecords.push({ table: 'vaults', column: 'vault_key_encrypted', id: vaultRow.id, vaultId: vaultRow.id, ciphertext: vaultRow.vault_key_encrypted });
+        }
+        if (!share && EncryptionService.isLegacyFormat(vaultRow.name_encrypted)) {
+          legacyRecords.push({ table: 'vaults', column: 'name_encrypted', id: vaultRow.id, vaultId: vaultRow.id, ciphertext: vaultRow.name_encrypted });
+        }
+
+        const vault: Vault = {
+          id: vaultRow.id,
+          name: decryptedName,
+          items: [],
+          createdAt: new Date(vaultRow.created_at),
+          access: share?.permissions ?? 'owner',
+          owner: share?.owner,
+          shared: !!share || sharedOwnedIds.has(vaultRow.id),
+        };
+
+        vaults.push(vault);
+        vaultKeys[vault.id] = vaultKey;
+        if (pendingKey) pendingKeys[vault.id] = pendingKey;
+      } catch (error) {
+        console.error(`Error decrypting vault ${vaultRow.id}:`, error);
+        failedCount++;
+      }
+    }
+
+    // Sync the items of all vaults, then decrypt each vault's new items in parallel
+    const sync = await this.syncItemRows(vaults.map(v => v.id));
+    const loadedItems = new Map(loadedVaults.flatMap(vault => vault.items.map(item => [item.id, item] as const)));
+    const toDecrypt = sync.rows.filter(row => sync.changed.has(row.id) || !loadedItems.has(row.id));
+    const total = toDecrypt.length;
+    let done = 0;
+    onProgress?.(0, total);
+
+    const results = await Promise.all(vaults.map(vault => {
+      const rows = toDecrypt.filter(row => row.vault_id === vault.id);
+      let vaultDone = 0;
+
+      return this.decryptItemRows(rows, vaultKeys[vault.id], count => {
+        done += count - vaultDone;
+        vaultDone = count;
+        onProgress?.(done, total);
+      }, pendingKeys[vault.id]);
+    }));
+
+    await this.updateCache(this.cacheVaults(userId, vaultData, sharedVaults, sync));
+
+    vaults.forEach((vault, index) => {
+      // Unchanged items keep their decrypted copy from the last load
+      const decrypted = new Map(results[index].items.map(item => [item.id, item]));
+      vault.items = sync.rows
+        .filter(row => row.vault_id === vault.id)
+        .flatMap(row => decrypted.get(row.id) ?? (sync.changed.has(row.id) ? [] : loadedItems.get(row.id) ?? []));
+      failedCount += results[index].failedCount;
+
+      // Read-only members cannot write the upgraded records back
+      if (vault.access !== 'read') {
+        legacyRecords.push(...results[index].legacyRecords);
+        plaintextMetadata.push(...results[index].plaintextMetadata);
+      }
+    });
+
+    // Queued changes are already applied to the cached items, but not yet to the manifest
+    const queuedItemIds = new Set(
+      (await IndexedDBService.getPendingSync(userId).catch(() => [])).map(mutation => mutation.itemId)
+    );
+
+    const integrity: VaultIntegrity[] = [];
+    for (const vault of vaults) {
+      const manifestEncrypted = vaultData.find(row => row.id === vault.id)!.manifest_encrypted;
+      const keys = [vaultKeys[vault.id], pendingKeys[vault.id]].filter(Boolean);
+      integrity.push(await this.checkManifest(vault, manifestEncrypted, keys, knownManifestSeqs[vault.id], queuedItemIds));
+    }
+
+    return {
+      vaults,
+      vaultKeys,
+      failedCount,
+      legacyRecords,
+      plaintextMetadata,
+      pendingRotations: Object.keys(pendingKeys),
+      integrity,
+    };
+  }
+
+  // The local cache is best effort, the server copy stays authoritative
+  private updateCache(task: Promise<void>): Promise<void> {
+    return task.catch(error => console.error('Error updating local cache:', error));
+  }
+
+  // Mirror the ciphertext just loaded into the local cache, with the new sync cursors
+  private async cacheVaults(
+    userId: string,
+    vaultRows: { id: string; name_encrypted: string; manifest_encrypted: string | null; vault_key_encrypted: string | null; created_at: string; updated_at: string }[],
+    sharedVaults: SharedVaultKey[],
+    sync: ItemSync
+  ): Promise<void> {
+    await IndexedDBService.replaceVaults(userId, vaultRows.map(row => {
+      const share = sharedVaults.find(s => s.vaultId === row.id);
+      return {
+        id: row.id,
+        userId,
+        nameEncrypted: row.name_encrypted,
+        vaultKeyEncrypted: share ? null : row.vault_key_encrypted,
+        sharedKeyEncrypted: share?.sharedKeyEncrypted ?? null,
+        manifestEncrypted: row.manifest_encrypted,
+        legacyFormatRetired: this.legacyFormatRetired.has(row.id),
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+      };
+    }));
+
+    await IndexedDBService.applyItemSync(
+      sync.fullVaultIds,
+      sync.rows.filter(row => sync.changed.has(row.id)).map(row => ({
+        id: row.id,
+        vaultId: row.vault_id,
+        dataEncrypted: row.data_encrypted,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+      })),
+      sync.deletedIds,
+      sync.cursors
+    );
+  }
+
+  // Current item rows of the given vaults. Vaults with a cursor younger than
+  // MAX_CURSOR_AGE_MS start from the cached rows, with the rows changed since the cursor
+  // applied on top and tombstoned ones removed. The others are fetched in full.
+  private async syncItemRows(vaultIds: string[]): Promise<ItemSync> {
+    let previous: Record<string, string> = {};
+    let cached: CachedItem[] = [];
+    try {
+      previous = await IndexedDBService.getSyncCursors(vaultIds);
+      previous = Object.fromEntries(Object.entries(previous).filter(([, cursor]) => Date.now() - Date.parse(cursor) < MAX_CURSOR_AGE_MS));
+      cached = await IndexedDBService.getItemsOfVaults(Object.keys(previous));
+    } catch (error) {
+      console.error('Error reading local cache, loading all items:', error);
+      previous = {};
+    }
+
+    const deltaIds = vaultIds.filter(id => previous[id]);
+    const fullVaultIds = vaultIds.filter(id => !previous[id]);
+    const since = deltaIds.length > 0
+      ? new Date(Math.min(...deltaIds.map(id => Date.parse(previous[id]))) - CURSOR_OVERLAP_MS).toISOString()
+      : null;
+
+    const [fullRows, changedRows, tombstones] = await Promise.all([
+      this.getItemRows(fullVaultIds),
+      since ? this.getItemRows(deltaIds, since) : [],
+      since ? this.getTombstones(deltaIds, since) : [],
+    ]);
+
+    // Rows are fetched from the oldest cursor, those of vaults with a later one are
+    // already cached. A row read just before it was deleted is dropped as well.
+    const deletedIds = tombstones.map(tombstone => tombstone.item_id);
+    const deleted = new Set(deletedIds);
+    const serverRows = [
+      ...fullRows,
+      ...changedRows.filter(row => Date.parse(row.updated_at) > Date.parse(previous[row.vault_id]) - CURSOR_OVERLAP_MS),
+    ].filter(row => !deleted.has(row.id));
+
+    const rows = new Map<string, ItemRow>();
+    cached.filter(item => !deleted.has(item.id)).forEach(item => rows.set(item.id, {
+      id: item.id,
+      vault_id: item.vaultId,
+      type: null,
+      data_encrypted: item.dataEncrypted,
+      created_at: item.createdAt,
+      updated_at: item.updatedAt,
+      tags: null,
+    }));
+    serverRows.forEach(row => rows.set(row.id, row));
+
+    // Cursors move to the latest change seen. Every page of rows and tombstones has been
+    // read by now, a page that failed threw before any cursor could move past rows not
+    // fetched yet. Rows with plaintext metadata are not fully cached (see CachedItem),
+    // so their vaults are fetched in full until migrated.
+    const cursors: Record<string, string | null> = {};
+    for (const vaultId of vaultIds) {
+      const vaultRows = serverRows.filter(row => row.vault_id === vaultId);
+      const timestamps = [
+        previous[vaultId],
+        ...vaultRows.map(row => row.updated_at),
+        ...tombstones.filter(tombstone => tombstone.vault_id === vaultId).map(tombstone => tombstone.deleted_at),
+      ].filter(Boolean);
+
+      cursors[vaultId] = timestamps.length === 0 || vaultRows.some(row => row.type !== null || row.tags !== null)
+        ? null
+        : timestamps.reduce((latest, timestamp) => Date.parse(timestamp) > Date.parse(latest) ? timestamp : latest);
+    }
+
+    return {
+      rows: [...rows.values()],
+      changed: new Set(serverRows.map(row => row.id)),
+      fullVaultIds,
+      deletedIds,
+      cursors,
+    };
+  }
+
+  // Whether records of the vault may still be in the legacy ciphertext format
+  acceptsLegacyFormat(vaultId: string): boolean {
+    return !this.legacyFormatRetired.has(vaultId);
+  }
+
+  // Re-encrypt legacy records into the envelope format. Each row is only replaced if it
+  // still holds the ciphertext that was read, so concurrent edits are never overwritten.
+  // Item history is not loaded with the vaults and is looked up here. Owned vaults left
+  // without legacy records refuse the format from then on. Returns the number of
+  // records upgraded.
+  async upgradeLegacyRecords(
+    records: CiphertextRecord[],
+    itemVaultIds: Record<string, string>,
+    masterKey: CryptoKey,
+    vaultKeys: Record<string, CryptoKey>,
+    ownedVaultIds: string[]
+  ): Promise<number> {
+    if (this.upgradeInProgress) return 0;
+    this.upgradeInProgress = true;
+
+    try {
+      const pending = [...records, ...await this.getLegacyHistory(itemVaultIds)];
+      const remaining = new Set<string>(); // Vaults with records still in the legacy format
+      let upgraded = 0;
+
+      for (const record of pending) {
+        const key = record.column === 'vault_key_encrypted' ? masterKey : vaultKeys[record.vaultId];
+        if (!key) {
+          remaining.add(record.vaultId);
+          continue;
+        }
+
+        try {
+          const plaintext = await EncryptionService.decrypt(record.ciphertext, key);
+          const ciphertext = await EncryptionService.encrypt(plaintext, key, RecordContext.forRecord(record));
+
+          if (await this.replaceCiphertext(record, ciphertext)) upgraded++;
+        } catch (error) {
+          console.error(`Error upgrading ${record.table} record ${record.id}:`, error);
+          // Left in the legacy format, retried on next load
+          remaining.add(record.vaultId);
+        }
+      }
+
+      await this.retireLegacyFormat(ownedVaultIds.filter(id => !remaining.has(id)));
+      return upgraded;
+    } finally {
+      this.upgradeInProgress = false;
+    }
+  }
+
+  // Mark vaults as refusing the legacy format once the server holds none of their
+  // records in it. The vault row and items are checked here, the history of every
+  // item was just looked up by upgradeLegacyRecords.
+  private async retireLegacyFormat(vaultIds: string[]): Promise<void> {
+    const candidates = vaultIds.filter(id => this.acceptsLegacyFormat(id));
+    if (candidates.length === 0) return;
+
+    const { data: vaultRows, error: vaultsError } = await supabase
+      .from('vaults')
+      .select('id, name_encrypted, vault_key_encrypted')
+      .in('id', candidates);
+
+    if (vaultsError) {
+      console.error('Error getting vaults:', vaultsError);
+      return;
+    }
+
+    const { data: itemRows, error: itemsError } = await supabase
+      .from('items')
+      .select('vault_id')
+      .in('vault_id', candidates)
+      .not('data_encrypted', 'like', '%.%');
+
+    if (itemsError) {
+      console.error('Error getting legacy items:', itemsError);
+      return;
+    }
+
+    // Vaults without a wrapped key still wait to be adopted (see adoptLegacyVaultKey)
+    const legacyItemVaults = new Set(itemRows.map(row => row.vault_id));
+    const retired = vaultRows
+      .filter(row =>
+        row.vault_key_encrypted
+        && !EncryptionService.isLegacyFormat(row.vault_key_encrypted)
+        && !EncryptionService.isLegacyFormat(row.name_encrypted)
+        && !legacyItemVaults.has(row.id)
+      )
+      .map(row => row.id);
+    if (retired.length === 0) return;
+
+    const { error } = await supabase
+      .from('vaults')
+      .update({ legacy_format_retired: true })
+      .in('id', retired);
+
+    if (error) {
+      console.error('Error retiring legacy format:', error);
+      return;
+    }
+
+    retired.forEach(id => this.legacyFormatRetired.add(id));
+  }
+
+  // Replace a record's ciphertext only if it still holds the value that was read.
+  // Returns false if the row changed in the meantime. Items are tagged with the
+  // version of the key they are now encrypted with, the vault's current one by default.
+  async replaceCiphertext(record: CiphertextRecord, ciphertext: string, keyVersion = this.keyVersion(record.vaultId)): Promise<boolean> {
+    const { data, error } = await supabase
+      .from(record.table)
+      .update({ [record.column]: ciphertext, ...(record.table === 'items' && { key_version: keyVersion }) })
+      .eq('id', record.id)
+      .eq(record.column, record.ciphertext)
+      .select('id');
+
+    if (error) {
+      console.error(`Error updating ${record.table} record ${record.id}:`, error);
+      throw error;
+    }
+
+    return data.length > 0;
+  }
+
+  // Throws when the lookup fails, so a vault is never retired with history unchecked
+  private async getLegacyHistory(itemVaultIds: Record<string, string>): Promise<CiphertextRecord[]> {
+    const itemIds = Object.keys(itemVaultIds);
+    const records: CiphertextRecord[] = [];
+
+    // Look up history in chunks to keep the request URL short
+    for (let i = 0; i < itemIds.length; i += 100) {
+      const chunk = itemIds.slice(i, i + 100);
+      const history = await this.getAllRows<{ id: string; item_id: string; data_encrypted: string }>('item history', after => {
+        let query = supabase
+          .from('item_history')
+          .select('id, item_id, data_encrypted', { count: 'exact' })
+          .in('item_id', chunk)
+          .not('data_encrypted', 'like', '%.%');
+        if (after) query = query.gt('id', after);
+        return query.order('id').limit(PAGE_SIZE);
+      });
+
+      records.push(...history.map(row => ({
+        table: 'item_history' as const,
+        column: 'data_encrypted' as const,
+        id: row.id,
+        vaultId: itemVaultIds[row.item_id],
+        itemId: row.item_id,
+        ciphertext: row.data_encrypted,
+      })));
+    }
+
+    return records;
+  }
+
+  // Vaults created before per-vault keys were encrypted directly with the master key,
+  // and earlier versions adopted a copy of the master key as their vault key. Either way
+  // the key must never be sealed to anyone, it opens every other vault key and the
+  // user's private key. Adopting starts a rotation to a fresh random key, which
+  // re-encrypts the vault's records and is finished by VaultKeyRotationService when the
+  // vaults load. Needs the raw master key, so it runs during unlock and before the master
+  // key changes.
+  async adoptLegacyVaultKey(vaultId: string, masterKey: Uint8Array): Promise<void> {
+    const keyBytes = EncryptionService.generateRandomKey();
+
+    try {
+      await this.savePendingVaultKey(vaultId, await this.wrapVaultKey(vaultId, keyBytes, masterKey));
+    } catch (error) {
+      console.error('Error upgrading legacy vault key:', error);
+      throw error;
+    } finally {
+      EncryptionService.wipe(keyBytes);
+    }
+  }
+
+  // Vault manifests (see VaultManifestService)
+  private async sealManifest(vaultId: string, manifest: VaultManifest, vaultKey: CryptoKey): Promise<string> {
+    return EncryptionService.encrypt(JSON.stringify(manifest), vaultKey, RecordContext.manifest(vaultId));
+  }
+
+  private async openManifest(vaultId: string, manifestEncrypted: string, vaultKey: CryptoKey): Promise<VaultManifest> {
+    return VaultManifestService.parse(
+      await EncryptionService.decrypt(manifestEncrypted, vaultKey, RecordContext.manifest(vaultId), this.acceptsLegacyFormat(vaultId))
+    );
+  }
+
+  // Replace the manifest only if it still holds the value that was read
+  private async saveManifest(vaultId: string, expected: string | null, manifest: VaultManifest, vaultKey: CryptoKey): Promise<boolean> {
+    let query = supabase
+      .from('vaults')
+      .update({ manifest_encrypted: await this.sealManifest(vaultId, manifest, vaultKey) })
+      .eq('id', vaultId);
+    query = expected === null ? query.is('manifest_encrypted', null) : query.eq('manifest_encrypted', expected);
+
+    const { data, error } = await query.select('id');
+
+    if (error) {
+      console.error('Error saving vault manifest:', error);
+      throw error;
+    }
+
+    return data.length > 0;
+  }
+
+  // Items with changes queued on this device are left out of the check until they sync
+  private async checkManifest(
+    vault: Vault,
+    manifestEncrypted: string | null,
+    keys: CryptoKey[],
+    knownSeq = 0,
+    queuedItemIds = new Set<string>()
+  ): Promise<VaultIntegrity> {
+    const clean = { vaultId: vault.id, missing: [], unknown: [], rolledBack: [], manifestRolledBack: false, manifestUnreadable: false };
+    const items = vault.items.filter(item => !queuedItemIds.has(item.id));
+
+    try {
+      // This device has seen a manifest for the vault, so it was removed since
+      if (!manifestEncrypted && knownSeq > 0) {
+        return { ...clean, seq: knownSeq, manifestRolledBack: true };
+      }
+
+      // Vaults from before manifests start one from the items the server returns now
+      if (!manifestEncrypted) {
+        const manifest = VaultManifestService.create(items);
+        await this.saveManifest(vault.id, null, manifest, keys[0]);
+        return { ...clean, seq: manifest.seq };
+      }
+
+      let manifest: VaultManifest | null = null;
+      for (const key of keys) {
+        manifest = await this.openManifest(vault.id, manifestEncrypted, key).catch(() => null);
+        if (manifest) break;
+      }
+      if (!manifest) {
+        console.error(`Manifest of vault ${vault.id} could not be decrypted`);
+        return { ...clean, seq: knownSeq, manifestUnreadable: true };
+      }
+
+      const verified = VaultManifestService.verify(manifest, items, knownSeq);
+      const check = { ...verified, missing: verified.missing.filter(id => !queuedItemIds.has(id)) };
+      if (!VaultManifestService.isClean(check)) {
+        return { ...clean, ...check, seq: manifest.seq };
+      }
+
+      const updated = VaultManifestService.catchUp(manifest, items);
+      if (updated && await this.saveManifest(vault.id, manifestEncrypted, updated, keys[0])) {
+        return { ...clean, seq: updated.seq };
+      }
+      return { ...clean, seq: manifest.seq };
+    } catch (error) {
+      // Saving failed, the check is repeated on the next load
+      console.error(`Error checking manifest of vault ${vault.id}:`, error);
+      return { ...clean, seq: knownSeq };
+    }
+  }
+
+  // Record item changes in the vault's manifest, retrying if another write got there first
+  private async updateManifest(vaultId: string, vaultKey: CryptoKey, changes: Record<string, number | null>): Promise<void> {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const { data, error } = await supabase
+        .from('vaults')
+        .select('manifest_encrypted')
+        .eq('id', vaultId)
+        .single();
+
+      if (error) {
+        console.error('Error getting vault manifest:', error);
+        throw error;
+      }
+
+      // Created from the current items on the next load
+      if (!data.manifest_encrypted) return;
+
+      const manifest = await this.openManifest(vaultId, data.manifest_encrypted, vaultKey);
+      if (await this.saveManifest(vaultId, data.manifest_encrypted, VaultManifestService.apply(manifest, changes), vaultKey)) {
+        return;
+      }
+    }
+
+    throw new Error('Vault manifest could not be updated');
+  }
+
+  // Accept what the server currently holds after an integrity warning was reviewed.
+  // The new manifest continues from the highest sequence number seen.
+  async resetManifest(vaultId: string, items: VaultItem[], vaultKey: CryptoKey, knownSeq = 0): Promise<number> {
+    const manifest = { ...VaultManifestService.create(items), seq: knownSeq + 1 };
+
+    const { error } = await supabase
+      .from('vaults')
+      .update({ manifest_encrypted: await this.sealManifest(vaultId, manifest, vaultKey) })
+      .eq('id', vaultId);
+
+    if (error) {
+      console.error('Error resetting vault manifest:', error);
+      throw error;
+    }
+
+    return manifest.seq;
+  }
+
+  // Vault key rotation (see VaultKeyRotationService)
+  async getVaultKeyState(vaultId: string): Promise<VaultKeyState> {
+    const { data, error } = await supabase
+      .from('vaults')
+      .select('name_encrypted, manifest_encrypted, vault_key_encrypted, pending_vault_key_encrypted, key_version')
+      .eq('id', vaultId)
+      .single();
+
+    if (error) {
+      console.error('Error getting vault key state:', error);
+      throw error;
+    }
+
+    return {
+      nameEncrypted: data.name_encrypted,
+      manifestEncrypted: data.manifest_encrypted,
+      vaultKeyEncrypted: data.vault_key_encrypted,
+      pendingVaultKeyEncrypted: data.pending_vault_key_encrypted,
+      keyVersion: data.key_version ?? 1,
+    };
+  }
+
+  // Store the next vault key unless another rotation already stored one. Returns the
+  // pending key that is actually in place, which is the one to rotate to.
+  async savePendingVaultKey(vaultId: string, vaultKeyEncrypted: string): Promise<string> {
+    const { data, error } = await supabase
+      .from('vaults')
+      .update({ pending_vault_key_encrypted: vaultKeyEncrypted })
+      .eq('id', vaultId)
+      .is('pending_vault_key_encrypted', null)
+      .select('pending_vault_key_encrypted');
+
+    if (error) {
+      console.error('Error saving pending vault key:', error);
+      throw error;
+    }
+
+    if (data.length > 0) return vaultKeyEncrypted;
+
+    const { pendingVaultKeyEncrypted } = await this.getVaultKeyState(vaultId);
+    if (!pendingVaultKeyEncrypted) throw new Error('Vault key rotation could not be started');
+    return pendingVaultKeyEncrypted;
+  }
+
+  // Every ciphertext encrypted with a vault's key: its name, manifest, items, item history
+  // and activity. Throws rather than return part of them, a key rotation completing on a
+  // partial read would leave the rest unreadable.
+  async getVaultCiphertexts(vaultId: string): Promise<CiphertextRecord[]> {
+    const { nameEncrypted, manifestEncrypted } = await this.getVaultKeyState(vaultId);
+    const records: CiphertextRecord[] = [
+      { table: 'vaults', column: 'name_encrypted', id: vaultId, vaultId, ciphertext: nameEncrypted },
+    ];
+    if (manifestEncrypted) {
+      records.push({ table: 'vaults', column: 'manifest_encrypted', id: vaultId, vaultId, ciphertext: manifestEncrypted });
+    }
+
+    const items = await this.getAllRows<{ id: string; data_encrypted: string }>('vault items', after => {
+      let query = supabase.from('items').select('id, data_encrypted', { count: 'exact' }).eq('vault_id', vaultId);
+      if (after) query = query.gt('id', after);
+      return query.order('id').limit(PAGE_SIZE);
+    });
+
+    records.push(...items.map(row => ({
+      table: 'items' as const,
+      column: 'data_encrypted' as const,
+      id: row.id,
+      vaultId,
+      ciphertext: row.data_encrypted,
+    })));
+
+    // Look up history in chunks to keep the request URL short
+    for (let i = 0; i < items.length; i += 100) {
+      const itemIds = items.slice(i, i + 100).map(row => row.id);
+      const history = await this.getAllRows<{ id: string; item_id: string; data_encrypted: string }>('item history', after => {
+        let query = supabase.from('item_history').select('id, item_id, data_encrypted', { count: 'exact' }).in('item_id', itemIds);
+        if (after) query = query.gt('id', after);
+        return query.order('id').limit(PAGE_SIZE);
+      });
+
+      records.push(...history.map(row => ({
+        table: 'item_history' as const,
+        column: 'data_encrypted' as const,
+        id: row.id,
+        vaultId,
+        itemId: row.item_id,
+        ciphertext: row.data_encrypted,
+      })));
+    }
+
+    const activity = await this.getAllRows<{ id: string; details_encrypted: string }>('vault activity', after => {
+      let query = supabase
+        .from('activity_logs')
+        .select('id, details_encrypted', { count: 'exact' })
+        .eq('vault_id', vaultId)
+        .not('details_encrypted', 'is', null);
+      if (after) query = query.gt('id', after);
+      return query.order('id').limit(PAGE_SIZE);
+    });
+
+    records.push(...activity.map(row => ({
+      table: 'activity_logs' as const,
+      column: 'details_encrypted' as const,
+      id: row.id,
+      vaultId,
+      ciphertext: row.details_encrypted,
+    })));
+
+    return records;
+  }
+
+  // Vaults shared with a user, with the email of each vault's owner
+  async getVaultShares(userId: string): Promise<VaultShare[]> {
+    const { data, error } = await supabase
+      .from('shared_vaults')
+      .select('id, vault_id, owner_id, permissions, shared_key_encrypted')
+      .eq('shared_with_user_id', userId);
+
+    if (error) {
+      console.error('Error getting vault shares:', error);
+      throw error;
+    }
+
+    if (data.length === 0) return [];
+
+    const { data: owners, error: ownersError } = await supabase.rpc('get_shared_vault_owners');
+
+    if (ownersError) {
+      console.error('Error getting vault owners:', ownersError);
+      throw ownersError;
+    }
+
+    const ownerEmails = new Map(
+      (owners as { vault_id: string; owner_email: string }[]).map(row => [row.vault_id, row.owner_email])
+    );
+
+    return data.map(row => ({
+      shareId: row.id,
+      vaultId: row.vault_id,
+      owner: { id: row.owner_id, email: ownerEmails.get(row.vault_id) ?? '' },
+      permissions: row.permissions,
+      sharedKeyEncrypted: row.shared_key_encrypted,
+    }));
+  }
+
+  async getVaultCollaborators(vaultId: string): Promise<VaultCollaborator[]> {
+    const { data, error } = await supabase.rpc('get_vault_members', { p_vault_id: vaultId });
+
+    if (error) {
+      console.error('Error getting vault collaborators:', error);
+      throw error;
+    }
+
+    const rows = data as { share_id: string; user_id: string; email: string; permissions: SharePermission; created_at: string }[];
+    const publicKeys = await this.getPublicKeys(rows.map(row => row.user_id));
+
+    return rows.map(row => ({
+      shareId: row.share_id,
+      userId: row.user_id,
+      email: row.email,
+      permissions: row.permissions,
+      publicKey: publicKeys.get(row.user_id) ?? null,
+      joinedAt: new Date(row.created_at),
+    }));
+  }
+
+  async updateSharePermissions(vaultId: string, userId: string, permissions: SharePermission): Promise<void> {
+    const { error } = await supabase
+      .from('shared_vaults')
+      .update({ permissions })
+      .eq('vault_id', vaultId)
+      .eq('shared_with_user_id', userId);
+
+    if (error) {
+      console.error('Error updating share permissions:', error);
+      throw error;
+    }
+  }
+
+  async deleteShare(vaultId: string, userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('shared_vaults')
+      .delete()
+      .eq('vault_id', vaultId)
+      .eq('shared_with_user_id', userId);
+
+    if (error) {
+      console.error('Error deleting share:', error);
+      throw error;
+    }
+  }
+
+  // Activity logs (see ActivityLogService)
+  async insertActivityLog(entry: Omit<ActivityLogRecord, 'email' | 'createdAt'>): Promise<void> {
+    const { error } = await supabase
+      .from('activity_logs')
+      .insert({
+        id: entry.id,
+        vault_id: entry.vaultId,
+        user_id: entry.userId,
+        action: entry.action,
+        item_id: entry.itemId,
+        details_encrypted: entry.detailsEncrypted,
+      });
+
+    if (error) {
+      console.error('Error writing activity log:', error);
+      throw error;
+    }
+  }
+
+  async getVaultActivity(vaultId: string, limit = 1000): Promise<ActivityLogRecord[]> {
+    const { data, error } = await supabase.rpc('get_vault_activity', { p_vault_id: vaultId, p_limit: limit });
+
+    if (error) {
+      console.error('Error getting vault activity:', error);
+      throw error;
+    }
+
+    return (data as {
+      id: string;
+      user_id: string;
+      email: string;
+      action: string;
+      item_id: string | null;
+      details_encrypted: string | null;
+      created_at: string;
+    }[]).map(row => ({
+      id: row.id,
+      vaultId,
+      userId: row.user_id,
+      email: row.email,
+      action: row.action,
+      itemId: row.item_id,
+      detailsEncrypted: row.details_encrypted,
+      createdAt: new Date(row.created_at),
+    }));
+  }
+
+  // Hand a vault to one of its members (see transfer_vault_ownership).
+  // previousOwnerKey is the vault key sealed to the current owner, who stays on as admin.
+  async transferVaultOwnership(vaultId: string, newOwnerId: string, previousOwnerKey: string): Promise<void> {
+    const { error } = await supabase.rpc('transfer_vault_ownership', {
+      p_vault_id: vaultId,
+      p_new_owner_id: newOwnerId,
+      p_previous_owner_key: previousOwnerKey,
+    });
+
+    if (error) {
+      console.error('Error transferring vault ownership:', error);
+      throw new Error(error.message);
     }
   }
 
-  async getUserProfile(userId: string): Promise<{ salt: Uint8Array } | null> {
+  // Vaults handed to a user whose key is still sealed to their keypair
+  async getPendingOwnerKeys(userId: string): Promise<{ vaultId: string; ownerKeySealed: string }[]> {
     const { data, error } = await supabase
-      .from('user_profiles')
-      .select('salt')
+      .from('vaults')
+      .select('id, owner_key_sealed')
       .eq('user_id', userId)
-      .single();
+      .not('owner_key_sealed', 'is', null);
 
     if (error) {
-      if (error.code === 'PGRST116') return null; // No profile found
-      console.error('Error getting user profile:', error);
+      console.error('Error getting transferred vaults:', error);
       throw error;
     }
 
-    return {
-      salt: EncryptionService.fromBase64(data.salt),
-    };
+    return data.map(row => ({ vaultId: row.id, ownerKeySealed: row.owner_key_sealed }));
   }
 
-  // Device management
-  async saveDevice(userId: string, deviceId: string, deviceName?: string): Promise<void> {
+  // Replace the sealed key of a transferred vault with one wrapped under the new
+  // owner's master key, unless another device already did
+  async completeOwnershipTransfer(vaultId: string, ownerKeySealed: string, vaultKeyEncrypted: string): Promise<void> {
     const { error } = await supabase
-      .from('devices')
-      .upsert({
-        user_id: userId,
-        device_id: deviceId,
-        device_name: deviceName || navigator.userAgent,
-        last_seen: new Date().toISOString(),
-      });
+      .from('vaults')
+      .update({ vault_key_encrypted: vaultKeyEncrypted, owner_key_sealed: null })
+      .eq('id', vaultId)
+      .eq('owner_key_sealed', ownerKeySealed);
 
     if (error) {
-      console.error('Error saving device:', error);
+      console.error('Error completing vault ownership transfer:', error);
       throw error;
     }
   }
 
-  async updateDeviceLastSeen(deviceId: string): Promise<void> {
-    const { error } = await supabase
-      .from('devices')
-      .update({ last_seen: new Date().toISOString() })
-      .eq('device_id', deviceId);
+  async getVaultMembers(vaultId: string): Promise<VaultMember[]> {
+    const { data, error } = await supabase
+      .from('shared_vaults')
+      .select('id, shared_with_user_id')
+      .eq('vault_id', vaultId);
 
     if (error) {
-      console.error('Error updating device last seen:', error);
+      console.error('Error getting vault members:', error);
+      throw error;
     }
-  }
 
-  // Vault operations
-  async createVault(userId: string, name: string, masterKey: Uint8Array): Promise<Vault> {
-    const encryptedName = await EncryptionService.encrypt(name, masterKey);
-    const vaultId = EncryptionService.generateUUID();
+    if (data.length === 0) return [];
 
-    const { error } = await supabase
-      .from('vaults')
-      .insert({
-        id: vaultId,
-        user_id: userId,
-        name_encrypted: encryptedName,
-      });
+    const publicKeys = await this.getPublicKeys(data.map(row => row.shared_with_user_id));
+
+    return data.map(row => ({
+      shareId: row.id,
+      userId: row.shared_with_user_id,
+      publicKey: publicKeys.get(row.shared_with_user_id) ?? null,
+    }));
+  }
+
+  // Other users' profiles are not readable, public keys come from a security definer function
+  async getPublicKeys(userIds: string[]): Promise<Map<string, string | null>> {
+    const { data, error } = await supabase.rpc('get_public_keys', { p_user_ids: userIds });
 
     if (error) {
-      console.error('Error creating vault:', error);
+      console.error('Error getting public keys:', error);
       throw error;
     }
 
-    return {
-      id: vaultId,
-      name, // Keep decrypted for UI
-      items: [],
-      createdAt: new Date(),
-    };
+    return new Map((data as { user_id: string; public_key: string | null }[]).map(row => [row.user_id, row.public_key]));
   }
 
-  async getVaults(userId: string, masterKey: Uint8Array): Promise<Vault[]> {
-    const { data: vaultData, error: vaultsError } = await supabase
-      .from('vaults')
-      .select('id, name_encrypted, created_at, updated_at')
-      .eq('user_id', userId);
+  async updateMemberVaultKey(shareId: string, sharedKeyEncrypted: string | null): Promise<void> {
+    const { error } = await supabase
+      .from('shared_vaults')
+      .update({ shared_key_encrypted: sharedKeyEncrypted })
+      .eq('id', shareId);
 
-    if (vaultsError) {
-      console.error('Error getting vaults:', vaultsError);
-      throw vaultsError;
+    if (error) {
+      console.error('Error updating shared vault key:', error);
+      throw error;
     }
+  }
 
-    const vaults: Vault[] = [];
-
-    for (const vaultRow of vaultData) {
-      try {
-        const decryptedName = await EncryptionService.decrypt(vaultRow.name_encrypted, masterKey);
-
-        const vault: Vault = {
-          id: vaultRow.id,
-          name: decryptedName,
-          items: [],
-          createdAt: new Date(vaultRow.created_at),
-        };
+  // Switch the vault over to its pending key. Only succeeds if the pending key is still
+  // the one the rotation used.
+  async completeVaultKeyRotation(vaultId: string, pendingVaultKeyEncrypted: string, keyVersion: number): Promise<void> {
+    const { data, error } = await supabase
+      .from('vaults')
+      .update({
+        vault_key_encrypted: pendingVaultKeyEncrypted,
+        pending_vault_key_encrypted: null,
+        key_version: keyVersion,
+      })
+      .eq('id', vaultId)
+      .eq('pending_vault_key_encrypted', pendingVaultKeyEncrypted)
+      .select('id');
 
-        vaults.push(vault);
-      } catch (error) {
-        console.error(`Error decrypting vault ${vaultRow.id}:`, error);
-        // Skip vaults that can't be decrypted
-      }
+    if (error) {
+      console.error('Error completing vault key rotation:', error);
+      throw error;
     }
 
-    // Load items for each vault
-    for (const vault of vaults) {
-      const items = await this.getVaultItems(vault.id, masterKey);
-      vault.items = items;
-    }
+    if (data.length === 0) throw new Error('Vault key rotation was completed elsewhere');
+    this.keyVersions.set(vaultId, keyVersion);
+  }
 
-    return vaults;
+  // Version of the vault key loaded last, sent with every item write
+  private keyVersion(vaultId: string): number {
+    return this.keyVersions.get(vaultId) ?? 1;
   }
 
-  async updateVault(vaultId: string, name: string, masterKey: Uint8Array): Promise<void> {
-    const encryptedName = await EncryptionService.encrypt(name, masterKey);
+  async updateVault(vaultId: string, name: string, vaultKey: CryptoKey): Promise<void> {
+    const encryptedName = await EncryptionService.encrypt(name, vaultKey, RecordContext.vaultName(vaultId));
 
     const { error } = await supabase
       .from('vaults')
@@ -156,6 +1611,8 @@ class DatabaseService {
       console.error('Error updating vault:', error);
       throw error;
     }
+
+    await this.updateCache(IndexedDBService.updateVaultName(vaultId, encryptedName));
   }
 
   async deleteVault(vaultId: string): Promise<void> {
@@ -168,23 +1625,181 @@ class DatabaseService {
       console.error('Error deleting vault:', error);
       throw error;
     }
+
+    await this.updateCache(IndexedDBService.deleteVault(vaultId));
   }
 
-  // Item operations
-  async createVaultItem(vaultId: string, itemData: Omit<VaultItem, 'id' | 'vaultId' | 'createdAt' | 'updatedAt'>, masterKey: Uint8Array): Promise<VaultItem> {
-    const itemId = EncryptionService.generateUUID();
-
-    // Encrypt the item data as JSON
-    const itemJson = JSON.stringify({
-      type: itemData.type,
-      name: itemData.name,
-      url: itemData.url,
-      username: itemData.username,
-      password: itemData.password,
-      notes: itemData.notes,
+  // Vault invites (see SharedVaultsService)
+  // Account and public key to seal a vault key to, or null if there is no account
+  // with a sharing keypair for the email
+  async findSharingRecipient(email: string): Promise<{ userId: string; publicKey: string } | null> {
+    const { data, error } = await supabase.rpc('get_sharing_recipient', { p_email: email });
+
+    if (error) {
+      console.error('Error looking up invitee:', error);
+      throw error;
+    }
+
+    const row = (data as { user_id: string; public_key: string }[])[0];
+    return row ? { userId: row.user_id, publicKey: row.public_key } : null;
+  }
+
+  async createVaultInvite(invite: Omit<VaultInviteRecord, 'id' | 'status' | 'respondedAt' | 'createdAt'>): Promise<VaultInviteRecord> {
+    const { data, error } = await supabase
+      .from('vault_invites')
+      .insert({
+        vault_id: invite.vaultId,
+        inviter_id: invite.inviterId,
+        inviter_email: invite.inviterEmail,
+        invitee_id: invite.inviteeId,
+        invitee_email: invite.inviteeEmail,
+        permissions: invite.permissions,
+        shared_key_encrypted: invite.sharedKeyEncrypted,
+        vault_name_encrypted: invite.vaultNameEncrypted,
+        expires_at: invite.expiresAt.toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating vault invite:', error);
+      throw error;
+    }
+
+    return this.toVaultInvite(data);
+  }
+
+  async getVaultInvite(inviteId: string): Promise<VaultInviteRecord | null> {
+    const { data, error } = await supabase
+      .from('vault_invites')
+      .select()
+      .eq('id', inviteId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error getting vault invite:', error);
+      throw error;
+    }
+
+    return data ? this.toVaultInvite(data) : null;
+  }
+
+  // Pending, unexpired invites addressed to a user
+  async getReceivedInvites(userId: string): Promise<VaultInviteRecord[]> {
+    const { data, error } = await supabase
+      .from('vault_invites')
+      .select()
+      .eq('invitee_id', userId)
+      .eq('status', 'pending')
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error getting received invites:', error);
+      throw error;
+    }
+
+    return data.map(row => this.toVaultInvite(row));
+  }
+
+  // All invites sent for a vault, newest first
+  async getVaultInvites(vaultId: string): Promise<VaultInviteRecord[]> {
+    const { data, error } = await supabase
+      .from('vault_invites')
+      .select()
+      .eq('vault_id', vaultId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error getting vault invites:', error);
+      throw error;
+    }
+
+    return data.map(row => this.toVaultInvite(row));
+  }
+
+  // Move a pending invite to another status. Returns false if it was no longer pending.
+  async updateInviteStatus(inviteId: string, status: Exclude<InviteStatus, 'pending' | 'accepted'>): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('vault_invites')
+      .update({ status, responded_at: new Date().toISOString() })
+      .eq('id', inviteId)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (error) {
+      console.error('Error updating vault invite:', error);
+      throw error;
+    }
+
+    return data.length > 0;
+  }
+
+  // Mark every pending invite past its expiry that this user can see as expired
+  async expireVaultInvites(): Promise<void> {
+    const { error } = await supabase
+      .from('vault_invites')
+      .update({ status: 'expired' })
+      .eq('status', 'pending')
+      .lt('expires_at', new Date().toISOString());
+
+    if (error) {
+      console.error('Error expiring vault invites:', error);
+    }
+  }
+
+  // Join the vault with the invite's sealed key and close the invite, in one transaction
+  async acceptVaultInvite(inviteId: string): Promise<string> {
+    const { data, error } = await supabase.rpc('accept_vault_invite', { p_invite_id: inviteId });
+
+    if (error) {
+      console.error('Error accepting vault invite:', error);
+      throw new Error(error.message);
+    }
+
+    return data as string;
+  }
+
+  async updateInviteVaultKey(inviteId: string, sharedKeyEncrypted: string): Promise<void> {
+    const { error } = await supabase.rpc('reseal_vault_invite', {
+      p_invite_id: inviteId,
+      p_shared_key_encrypted: sharedKeyEncrypted,
     });
 
-    const encryptedData = await EncryptionService.encrypt(itemJson, masterKey);
+    if (error) {
+      console.error('Error updating invite vault key:', error);
+      throw error;
+    }
+  }
+
+  private toVaultInvite(row: VaultInviteRow): VaultInviteRecord {
+    return {
+      id: row.id,
+      vaultId: row.vault_id,
+      inviterId: row.inviter_id,
+      inviterEmail: row.inviter_email,
+      inviteeId: row.invitee_id,
+      inviteeEmail: row.invitee_email,
+      permissions: row.permissions,
+      sharedKeyEncrypted: row.shared_key_encrypted,
+      vaultNameEncrypted: row.vault_name_encrypted,
+      status: row.status,
+      expiresAt: new Date(row.expires_at),
+      respondedAt: row.responded_at ? new Date(row.responded_at) : null,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  // Item operations
+  // itemId is passed in for items created offline, which already have one locally
+  async createVaultItem(
+    vaultId: string,
+    itemData: Omit<VaultItem, 'id' | 'vaultId' | 'createdAt' | 'updatedAt'>,
+    vaultKey: CryptoKey,
+    itemId: string = EncryptionService.generateUUID()
+  ): Promise<VaultItem> {
+    const revision = 1;
+    const encryptedData = await EncryptionService.encrypt(this.toItemPayload({ ...itemData, revision }), vaultKey, RecordContext.item(itemId, vaultId));
 
     // Save item history for versioning
     const { error: historyError } = await supabase
@@ -205,9 +1820,8 @@ class DatabaseService {
       .insert({
         id: itemId,
         vault_id: vaultId,
-        type: itemData.type,
         data_encrypted: encryptedData,
-        tags: [], // Will be implemented later
+        key_version: this.keyVersion(vaultId),
       });
 
     if (error) {
@@ -215,123 +1829,348 @@ class DatabaseService {
       throw error;
     }
 
+    // Not caught up on the next load like updates are: the item shows as unknown there
+    // until the vault is accepted as it is (see VaultManifestService.catchUp)
+    await this.updateManifest(vaultId, vaultKey, { [itemId]: revision })
+      .catch(error => console.error('Error updating vault manifest:', error));
+
     const item: VaultItem = {
       ...itemData,
+      revision,
       id: itemId,
       vaultId,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
+    await this.updateCache(IndexedDBService.saveVaultItem({
+      id: itemId,
+      vaultId,
+      dataEncrypted: encryptedData,
+      createdAt: item.createdAt.toISOString(),
+      updatedAt: item.updatedAt.toISOString(),
+    }));
+
     return item;
   }
 
-  async getVaultItems(vaultId: string, masterKey: Uint8Array): Promise<VaultItem[]> {
-    const { data: itemData, error } = await supabase
-      .from('items')
-      .select('id, vault_id, type, data_encrypted, created_at, updated_at, tags')
-      .eq('vault_id', vaultId);
+  async getVaultItems(vaultId: string, vaultKey: CryptoKey): Promise<DecryptedItems> {
+    return this.decryptItemRows(await this.getItemRows([vaultId]), vaultKey);
+  }
 
-    if (error) {
-      console.error('Error getting vault items:', error);
-      throw error;
+  // Everything about an item is encrypted as one JSON payload, including its type and
+  // tags, so the server cannot tell cards from logins or read labels like "compromised"
+  private toItemPayload(item: ItemFields): string {
+    return JSON.stringify({
+      revision: item.revision,
+      type: item.type,
+      name: item.name,
+      url: item.url,
+      username: item.username,
+      password: item.password,
+      notes: item.notes,
+      tags: item.tags ?? [],
+    });
+  }
+
+  // since limits the rows to those changed after it. Rows are read in pages ordered by
+  // (updated_at, id), each starting after the last row of the one before, so rows
+  // changing in the meantime are not skipped. A row updated while paging can come back
+  // a second time, the later copy is kept.
+  private async getItemRows(vaultIds: string[], since?: string): Promise<ItemRow[]> {
+    if (vaultIds.length === 0) return [];
+
+    const rows = new Map<string, ItemRow>();
+    let last: ItemRow | undefined;
+
+    for (;;) {
+      let query = supabase
+        .from('items')
+        .select('id, vault_id, type, data_encrypted, created_at, updated_at, tags')
+        .in('vault_id', vaultIds);
+      if (since) query = query.gt('updated_at', since);
+      if (last) query = query.or(`updated_at.gt."${last.updated_at}",and(updated_at.eq."${last.updated_at}",id.gt.${last.id})`);
+
+      const { data, error } = await query
+        .order('updated_at')
+        .order('id')
+        .limit(PAGE_SIZE);
+
+      if (error) {
+        console.error('Error getting vault items:', error);
+        throw error;
+      }
+
+      data.forEach(row => rows.set(row.id, row));
+      if (data.length < PAGE_SIZE) return [...rows.values()];
+      last = data[data.length - 1];
+    }
+  }
+
+  // Every row a query matches, read in pages ordered by id. Ids never change, so no row
+  // is skipped however others change in the meantime. Throws when fewer rows came back
+  // than the first page counted, so callers never act on part of a table.
+  private async getAllRows<T extends { id: string }>(
+    description: string,
+    readPage: (after: string | undefined) => PromiseLike<{ data: T[] | null; error: PostgrestError | null; count: number | null }>
+  ): Promise<T[]> {
+    const rows: T[] = [];
+    let expected: number | null = null;
+
+    for (;;) {
+      const { data, error, count } = await readPage(rows[rows.length - 1]?.id);
+
+      if (error) {
+        console.error(`Error getting ${description}:`, error);
+        throw error;
+      }
+
+      expected ??= count;
+      rows.push(...data!);
+      if (data!.length < PAGE_SIZE) break;
+    }
+
+    if (expected !== null && rows.length < expected) {
+      throw new Error(`Read ${rows.length} of ${expected} ${description}, try again`);
+    }
+    return rows;
+  }
+
+  // Paged like getItemRows, ordered by (deleted_at, item_id)
+  private async getTombstones(vaultIds: string[], since: string): Promise<TombstoneRow[]> {
+    const tombstones: TombstoneRow[] = [];
+    let last: TombstoneRow | undefined;
+
+    for (;;) {
+      let query = supabase
+        .from('item_tombstones')
+        .select('item_id, vault_id, deleted_at')
+        .in('vault_id', vaultIds)
+        .gt('deleted_at', since);
+      if (last) query = query.or(`deleted_at.gt."${last.deleted_at}",and(deleted_at.eq."${last.deleted_at}",item_id.gt.${last.item_id})`);
+
+      const { data, error } = await query
+        .order('deleted_at')
+        .order('item_id')
+        .limit(PAGE_SIZE);
+
+      if (error) {
+        console.error('Error getting deleted items:', error);
+        throw error;
+      }
+
+      tombstones.push(...data);
+      if (data.length < PAGE_SIZE) return tombstones;
+      last = data[data.length - 1];
+    }
+  }
+
+  // fallbackKey is tried for rows the vault key cannot decrypt, while a key rotation is
+  // in progress
+  private async decryptItemRows(
+    rows: ItemRow[],
+    vaultKey: CryptoKey,
+    onProgress?: (done: number) => void,
+    fallbackKey?: CryptoKey
+  ): Promise<DecryptedItems> {
+    const jobs = rows.map(row => ({
+      ciphertext: row.data_encrypted,
+      aad: RecordContext.item(row.id, row.vault_id).aad,
+      allowLegacy: this.acceptsLegacyFormat(row.vault_id),
+    }));
+    const results = await CryptoWorkerPool.decryptBatch(vaultKey, jobs, onProgress);
+
+    if (fallbackKey) {
+      const failed = results.flatMap((result, index) => 'error' in result ? [index] : []);
+      const retried = await decryptJobs(fallbackKey, failed.map(index => jobs[index]));
+      failed.forEach((index, i) => { results[index] = retried[i]; });
     }
 
     const items: VaultItem[] = [];
+    const legacyRecords: CiphertextRecord[] = [];
+    const plaintextMetadata: CiphertextRecord[] = [];
+    let failedCount = 0;
+
+    rows.forEach((itemRow, index) => {
+      const result = results[index];
 
-    for (const itemRow of itemData) {
       try {
-        const decryptedJson = await EncryptionService.decrypt(itemRow.data_encrypted, masterKey);
-        const itemData = JSON.parse(decryptedJson);
+        if ('error' in result) throw new Error(result.error);
+        const itemData = JSON.parse(result.plaintext);
 
         const item: VaultItem = {
           id: itemRow.id,
           vaultId: itemRow.vault_id,
-          type: itemRow.type,
+          type: itemData.type ?? itemRow.type,
           name: itemData.name,
           url: itemData.url,
           username: itemData.username,
           password: itemData.password,
           notes: itemData.notes,
+          tags: itemData.tags ?? itemRow.tags ?? [],
+          revision: itemData.revision ?? 0,
           createdAt: new Date(itemRow.created_at),
           updatedAt: new Date(itemRow.updated_at),
         };
 
         items.push(item);
+
+        const record: CiphertextRecord = { table: 'items', column: 'data_encrypted', id: itemRow.id, vaultId: itemRow.vault_id, ciphertext: itemRow.data_encrypted };
+        if (EncryptionService.isLegacyFormat(itemRow.data_encrypted)) legacyRecords.push(record);
+        if (itemRow.type !== null || itemRow.tags !== null) plaintextMetadata.push(record);
       } catch (error) {
         console.error(`Error decrypting item ${itemRow.id}:`, error);
-        // Skip items that can't be decrypted
+        failedCount++;
       }
-    }
+    });
 
-    return items;
+    return { items, failedCount, legacyRecords, plaintextMetadata };
   }
 
-  async updateVaultItem(itemId: string, updates: Partial<VaultItem>, masterKey: Uint8Array): Promise<void> {
-    // First, get the current item to merge updates
-    const { data: currentItem, error: fetchError } = await supabase
-      .from('items')
-      .select('data_encrypted, vault_id, type')
-      .eq('id', itemId)
-      .single();
+  // Move the type and tags of items from before they were encrypted into the payload
+  // and clear the plaintext columns. Rows changed since they were read are left for
+  // the next load. Returns the number of items migrated.
+  async encryptItemMetadata(records: CiphertextRecord[], items: VaultItem[], vaultKeys: Record<string, CryptoKey>): Promise<number> {
+    const itemsById = new Map(items.map(item => [item.id, item]));
+    let migrated = 0;
 
-    if (fetchError) {
-      console.error('Error fetching current item:', fetchError);
-      throw fetchError;
-    }
+    for (const record of records) {
+      const item = itemsById.get(record.id);
+      const vaultKey = vaultKeys[record.vaultId];
+      if (!item || !vaultKey) continue;
 
-    // Decrypt current data
-    const decryptedJson = await EncryptionService.decrypt(currentItem.data_encrypted, masterKey);
-    const currentData = JSON.parse(decryptedJson);
+      try {
+        const encryptedData = await EncryptionService.encrypt(this.toItemPayload(item), vaultKey, RecordContext.forRecord(record));
 
-    // Merge updates
-    const updatedData = {
-      ...currentData,
-      ...updates,
-    };
+        const { data, error } = await supabase
+          .from('items')
+          .update({ data_encrypted: encryptedData, type: null, tags: null, key_version: this.keyVersion(record.vaultId) })
+          .eq('id', record.id)
+          .eq('data_encrypted', record.ciphertext)
+          .select('id');
 
-    // Update name field if it was changed
-    if (updates.name) {
-      updatedData.name = updates.name;
+        if (error) throw error;
+        migrated += data.length;
+      } catch (error) {
+        console.error(`Error encrypting metadata of item ${record.id}:`, error);
+      }
     }
 
-    // Re-encrypt and save history
-    const encryptedData = await EncryptionService.encrypt(JSON.stringify(updatedData), masterKey);
+    return migrated;
+  }
 
-    const { error: historyError } = await supabase
-      .from('item_history')
-      .insert({
-        item_id: itemId,
-        data_encrypted: encryptedData,
-      });
+  // updates were made against base, the version of the item the user last saw. Changes
+  // made elsewhere since then are merged field by field (see ItemMergeService); when
+  // both sides changed the same field nothing is written and the conflict is returned.
+  // The write only goes through if the item is still the version merged into, so a
+  // concurrent write makes the merge run again instead of being overwritten.
+  async updateVaultItem(
+    itemId: string,
+    updates: Partial<VaultItem>,
+    vaultKey: CryptoKey,
+    base?: ItemFields
+  ): Promise<ItemConflict | null> {
+    for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+      const { data: currentItem, error: fetchError } = await supabase
+        .from('items')
+        .select('data_encrypted, vault_id, type, tags, created_at')
+        .eq('id', itemId)
+        .single();
 
-    if (historyError) {
-      console.error('Error saving item history:', historyError);
-      // Continue anyway
-    }
+      if (fetchError) {
+        console.error('Error fetching current item:', fetchError);
+        throw fetchError;
+      }
 
-    // Update the item
-    const updateObj: any = {
-      data_encrypted: encryptedData,
-    };
+      // Decrypt current data, carrying over type and tags still stored in plaintext columns
+      const context = RecordContext.item(itemId, currentItem.vault_id);
+      const decryptedJson = await EncryptionService.decrypt(currentItem.data_encrypted, vaultKey, context, this.acceptsLegacyFormat(currentItem.vault_id));
+      const currentData: ItemFields = {
+        type: currentItem.type,
+        tags: currentItem.tags ?? [],
+        ...JSON.parse(decryptedJson),
+      };
+
+      const { merged, conflicts } = ItemMergeService.merge(base, currentData, updates);
+      if (conflicts.length > 0) {
+        const mine = { ...merged };
+        for (const field of conflicts) {
+          (mine as Record<string, unknown>)[field] = updates[field];
+        }
+        return { itemId, vaultId: currentItem.vault_id, fields: conflicts, mine, theirs: currentData };
+      }
+
+      const revision = (currentData.revision ?? 0) + 1;
+      const encryptedData = await EncryptionService.encrypt(this.toItemPayload({ ...merged, revision }), vaultKey, context);
+
+      // Update the item, clearing plaintext metadata from before it was encrypted
+      const { data, error } = await supabase
+        .from('items')
+        .update({ data_encrypted: encryptedData, type: null, tags: null, key_version: this.keyVersion(currentItem.vault_id) })
+        .eq('id', itemId)
+        .eq('data_encrypted', currentItem.data_encrypted)
+        .select('id');
+
+      if (error) {
+        console.error('Error updating vault item:', error);
+        throw error;
+      }
+
+      // Written elsewhere between the read and the write, merge again
+      if (!data || data.length === 0) continue;
+
+      const { error: historyError } = await supabase
+        .from('item_history')
+        .insert({
+          item_id: itemId,
+          data_encrypted: encryptedData,
+        });
+
+      if (historyError) {
+        console.error('Error saving item history:', historyError);
+        // Continue anyway
+      }
+
+      await this.updateCache(IndexedDBService.saveVaultItem({
+        id: itemId,
+        vaultId: currentItem.vault_id,
+        dataEncrypted: encryptedData,
+        createdAt: currentItem.created_at,
+        updatedAt: new Date().toISOString(),
+      }));
+
+      // A missed manifest update is caught up on the next load
+      await this.updateManifest(currentItem.vault_id, vaultKey, { [itemId]: revision })
+        .catch(error => console.error('Error updating vault manifest:', error));
 
-    // Update tags if provided (Phase 2 feature)
-    if (updates.hasOwnProperty('tags')) {
-      updateObj.tags = updates.tags || [];
+      return null;
     }
 
+    throw new Error('The item kept changing while saving it. Please try again.');
+  }
+
+  // Keep a version of an item that lost a conflict, so it can still be restored
+  async saveItemHistory(itemId: string, vaultId: string, fields: ItemFields, vaultKey: CryptoKey): Promise<void> {
+    const encryptedData = await EncryptionService.encrypt(this.toItemPayload(fields), vaultKey, RecordContext.item(itemId, vaultId));
+
     const { error } = await supabase
-      .from('items')
-      .update(updateObj)
-      .eq('id', itemId);
+      .from('item_history')
+      .insert({
+        item_id: itemId,
+        data_encrypted: encryptedData,
+      });
 
     if (error) {
-      console.error('Error updating vault item:', error);
+      console.error('Error saving item history:', error);
       throw error;
     }
   }
 
-  async deleteVaultItem(itemId: string): Promise<void> {
+  // The manifest is updated first: an item that outlives a failed delete is picked up
+  // again, while one deleted without a manifest update would be reported as missing
+  async deleteVaultItem(itemId: string, vaultId: string, vaultKey: CryptoKey): Promise<void> {
+    await this.updateManifest(vaultId, vaultKey, { [itemId]: null });
+
     const { error } = await supabase
       .from('items')
       .delete()
@@ -341,31 +2180,63 @@ class DatabaseService {
       console.error('Error deleting vault item:', error);
       throw error;
     }
+
+    await this.updateCache(IndexedDBService.deleteVaultItem(itemId));
   }
 
-  // Sync operations for real-time updates
-  subscribeToVaultUpdates(userId: string, callback: (payload: any) => void) {
+  // Sync operations for real-time updates (see RealtimeSyncService). onStatus reports the
+  // channel joining, failing, and joining again after a dropped connection.
+  subscribeToVaultUpdates(
+    userId: string,
+    callback: (payload: RealtimePostgresChangesPayload<VaultChangeRow>) => void,
+    onStatus?: (status: `${REALTIME_SUBSCRIBE_STATES}`) => void
+  ): RealtimeChannel {
     return supabase
       .channel(`vaults_${userId}`)
-      .on('postgres_changes', {
+      .on<VaultChangeRow>('postgres_changes', {
         event: '*',
         schema: 'public',
         table: 'vaults',
         filter: `user_id=eq.${userId}`,
       }, callback)
-      .subscribe();
+      .subscribe(onStatus);
   }
 
-  subscribeToItemUpdates(vaultId: string, callback: (payload: any) => void) {
+  // Deletions arrive as tombstones, which carry the vault id a deleted row no longer has
+  subscribeToItemUpdates(
+    vaultId: string,
+    callback: (payload: RealtimePostgresChangesPayload<ItemRow>) => void,
+    onDelete: (tombstone: TombstoneRow) => void,
+    onStatus?: (status: `${REALTIME_SUBSCRIBE_STATES}`) => void
+  ): RealtimeChannel {
     return supabase
       .channel(`items_${vaultId}`)
-      .on('postgres_changes', {
+      .on<ItemRow>('postgres_changes', {
         event: '*',
         schema: 'public',
         table: 'items',
         filter: `vault_id=eq.${vaultId}`,
       }, callback)
-      .subscribe();
+      .on<TombstoneRow>('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'item_tombstones',
+        filter: `vault_id=eq.${vaultId}`,
+      }, payload => {
+        if (payload.eventType !== 'DELETE') onDelete(payload.new);
+      })
+      .subscribe(onStatus);
+  }
+
+  async unsubscribe(channel: RealtimeChannel): Promise<void> {
+    await supabase.removeChannel(channel);
+  }
+
+  // Decrypt a single item row, as received over realtime
+  async decryptItem(row: ItemRow, vaultKey: CryptoKey): Promise<VaultItem> {
+    const { items } = await this.decryptItemRows([row], vaultKey);
+    if (items.length === 0) throw new Error(`Item ${row.id} could not be decrypted`);
+    return items[0];
   }
 }
 
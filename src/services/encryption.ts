@@ -1,5 +1,63 @@
+import sodium from 'libsodium-wrappers-sumo';
+import {
+  DEFAULT_CONTEXT,
+  decryptEnvelope,
+  encryptEnvelope,
+  fromBase64,
+  getKeyId,
+  isLegacyFormat,
+  toBase64,
+  type EnvelopeContext,
+} from './envelope';
+import { generateSharingKeypair, importPrivateKey, openSealedBox, sealToPublicKey } from './sealedBox';
+
+export type { EnvelopeContext } from './envelope';
+
+export type KdfAlgorithm = 'pbkdf2-sha256' | 'argon2id';
+
+// Key derivation settings stored next to the salt in user_profiles
+export interface KdfParams {
+  algorithm: KdfAlgorithm;
+  memory: number; // Argon2 memory limit in bytes (unused for PBKDF2)
+  ops: number; // Argon2 ops limit or PBKDF2 iteration count
+  version: number; // Bumped whenever the recommended parameters change
+}
+
+// Parameters used by accounts created before KDF settings were stored
+export const LEGACY_KDF_PARAMS: KdfParams = {
+  algorithm: 'pbkdf2-sha256',
+  memory: 0,
+  ops: 600000,
+  version: 1,
+};
+
+// Parameters for new accounts; older accounts are migrated on unlock
+export const CURRENT_KDF_PARAMS: KdfParams = {
+  algorithm: 'argon2id',
+  memory: 64 * 1024 * 1024,
+  ops: 3,
+  version: 2,
+};
+
+// Fixed parameters for the login hash. They cannot be looked up per account because
+// the hash is needed before the user is authenticated.
+const LOGIN_KDF_PARAMS: KdfParams = {
+  algorithm: 'argon2id',
+  memory: 64 * 1024 * 1024,
+  ops: 3,
+  version: 1,
+};
+
+// Known plaintext encrypted under the master key to tell a wrong password from bad data
+const KEY_CHECK_PLAINTEXT = 'hushkey-key-check-v1';
+
+// Keys are held as non-extractable CryptoKey handles. Raw bytes are only accepted
+// while a key is being wrapped or unwrapped, and are imported through a cache.
+export type KeyMaterial = CryptoKey | Uint8Array;
+
 class EncryptionService {
   private static instance: EncryptionService;
+  private keyCache = new WeakMap<Uint8Array, CryptoKey>();
 
   private constructor() {}
 
@@ -11,11 +69,52 @@ class EncryptionService {
   }
 
   async initialize(): Promise<void> {
-    // No initialization needed for Web Crypto API
+    // libsodium needs its WebAssembly module loaded before use
+    await sodium.ready;
+  }
+
+  // Key derivation using the account's stored KDF parameters
+  async deriveMasterKey(password: string, salt: Uint8Array, params: KdfParams = CURRENT_KDF_PARAMS): Promise<Uint8Array> {
+    switch (params.algorithm) {
+      case 'argon2id':
+        return this.deriveArgon2id(password, salt, params);
+      case 'pbkdf2-sha256':
+        return this.derivePbkdf2(password, salt, params);
+      default:
+        throw new Error(`Unsupported key derivation algorithm: ${params.algorithm}`);
+    }
+  }
+
+  // Derive the secret sent to Supabase Auth in place of the master password. It uses a
+  // salt bound to the email, so it is independent from the encryption key, which is
+  // derived with the random per-account salt from user_profiles.
+  async deriveLoginHash(password: string, email: string): Promise<string> {
+    const saltInput = new TextEncoder().encode(`hushkey-login:${email.trim().toLowerCase()}`);
+    const saltHash = new Uint8Array(await crypto.subtle.digest('SHA-256', saltInput));
+    const loginKey = await this.deriveArgon2id(password, saltHash.slice(0, 16), LOGIN_KDF_PARAMS);
+
+    return this.toBase64(loginKey);
+  }
+
+  // Whether a key derived with these parameters should be migrated to CURRENT_KDF_PARAMS
+  isKdfOutdated(params: KdfParams): boolean {
+    return params.version < CURRENT_KDF_PARAMS.version;
   }
 
-  // Key derivation using PBKDF2
-  async deriveMasterKey(password: string, salt: Uint8Array): Promise<Uint8Array> {
+  private async deriveArgon2id(password: string, salt: Uint8Array, params: KdfParams): Promise<Uint8Array> {
+    await sodium.ready;
+
+    return sodium.crypto_pwhash(
+      32,
+      password,
+      salt,
+      params.ops,
+      params.memory,
+      sodium.crypto_pwhash_ALG_ARGON2ID13
+    );
+  }
+
+  private async derivePbkdf2(password: string, salt: Uint8Array, params: KdfParams): Promise<Uint8Array> {
     const passwordBytes = new TextEncoder().encode(password);
     const keyMaterial = await crypto.subtle.importKey(
       'raw',
@@ -28,8 +127,8 @@ class EncryptionService {
     const derivedBits = await crypto.subtle.deriveBits(
       {
         name: 'PBKDF2',
-        salt: salt,
-        iterations: 600000,
+        salt: salt as BufferSource,
+        iterations: params.ops,
         hash: 'SHA-256'
       },
       keyMaterial,
@@ -39,63 +138,74 @@ class EncryptionService {
     return new Uint8Array(derivedBits);
   }
 
-  // Derive PIN key
-  async derivePinKey(pin: string, userId: string): Promise<string> {
-    const combinedInput = `${pin}:${userId}`;
-    const inputBytes = new TextEncoder().encode(combinedInput);
-    const hashBuffer = await crypto.subtle.digest('SHA-256', inputBytes);
-    return Array.from(new Uint8Array(hashBuffer))
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('');
+  // Derive PIN key using the salt and KDF parameters stored with the PIN on this device
+  async derivePinKey(pin: string, salt: Uint8Array, params: KdfParams): Promise<Uint8Array> {
+    return this.deriveMasterKey(pin, salt, params);
   }
 
-  // Encrypt data using AES-256-GCM
-  async encrypt(data: string, key: Uint8Array): Promise<string> {
-    const iv = this.generateNonce();
-    const dataBytes = new TextEncoder().encode(data);
-    
-    const cryptoKey = await crypto.subtle.importKey(
-      'raw',
-      key,
-      'AES-GCM',
-      false,
-      ['encrypt']
-    );
+  // Encrypt data into a versioned envelope (see envelope.ts)
+  async encrypt(data: string, key: KeyMaterial, context: EnvelopeContext = DEFAULT_CONTEXT): Promise<string> {
+    return encryptEnvelope(data, await this.toCryptoKey(key), context);
+  }
 
-    const ciphertext = await crypto.subtle.encrypt(
-      { name: 'AES-GCM', iv: iv },
-      cryptoKey,
-      dataBytes
-    );
+  // Decrypt an envelope, or a legacy blob without associated data unless allowLegacy is false
+  async decrypt(
+    encryptedData: string,
+    key: KeyMaterial,
+    context: Pick<EnvelopeContext, 'aad'> = DEFAULT_CONTEXT,
+    allowLegacy = true
+  ): Promise<string> {
+    return decryptEnvelope(encryptedData, await this.toCryptoKey(key), context.aad, allowLegacy);
+  }
 
-    const result = new Uint8Array(iv.length + ciphertext.byteLength);
-    result.set(iv);
-    result.set(new Uint8Array(ciphertext), iv.length);
+  isLegacyFormat(encryptedData: string): boolean {
+    return isLegacyFormat(encryptedData);
+  }
 
-    return this.toBase64(result);
+  getKeyId(encryptedData: string): string | null {
+    return getKeyId(encryptedData);
   }
 
-  // Decrypt data
-  async decrypt(encryptedData: string, key: Uint8Array): Promise<string> {
-    const cipherBytes = this.fromBase64(encryptedData);
-    const iv = cipherBytes.slice(0, 12);
-    const ciphertext = cipherBytes.slice(12);
+  // Import raw key bytes as a non-extractable AES-GCM key. Imports are cached per byte
+  // array, so a key that is used several times while wrapping is imported once.
+  async importKey(rawKey: Uint8Array): Promise<CryptoKey> {
+    const cached = this.keyCache.get(rawKey);
+    if (cached) return cached;
 
     const cryptoKey = await crypto.subtle.importKey(
       'raw',
-      key,
+      rawKey as BufferSource,
       'AES-GCM',
       false,
-      ['decrypt']
+      ['encrypt', 'decrypt']
     );
 
-    const decrypted = await crypto.subtle.decrypt(
-      { name: 'AES-GCM', iv: iv },
-      cryptoKey,
-      ciphertext
-    );
+    this.keyCache.set(rawKey, cryptoKey);
+    return cryptoKey;
+  }
 
-    return new TextDecoder().decode(decrypted);
+  // Overwrite raw key bytes once they have been imported or wrapped
+  wipe(rawKey: Uint8Array): void {
+    this.keyCache.delete(rawKey);
+    rawKey.fill(0);
+  }
+
+  private async toCryptoKey(key: KeyMaterial): Promise<CryptoKey> {
+    return key instanceof Uint8Array ? this.importKey(key) : key;
+  }
+
+  // Create the key check value stored in user_profiles
+  async createKeyCheck(masterKey: KeyMaterial): Promise<string> {
+    return this.encrypt(KEY_CHECK_PLAINTEXT, masterKey);
+  }
+
+  // Whether a master key opens the stored key check value
+  async verifyKeyCheck(keyCheckEncrypted: string, masterKey: KeyMaterial): Promise<boolean> {
+    try {
+      return await this.decrypt(keyCheckEncrypted, masterKey) === KEY_CHECK_PLAINTEXT;
+    } catch {
+      return false;
+    }
   }
 
   // Generate a random salt
@@ -126,36 +236,31 @@ class EncryptionService {
 
   // Utility methods for base64 encoding
   toBase64(data: Uint8Array): string {
-    return btoa(String.fromCharCode(...data));
+    return toBase64(data);
   }
 
   fromBase64(base64: string): Uint8Array {
-    const binary = atob(base64);
-    const bytes = new Uint8Array(binary.length);
-    for (let i = 0; i < binary.length; i++) {
-      bytes[i] = binary.charCodeAt(i);
-    }
-    return bytes;
+    return fromBase64(base64);
   }
 
-  // Generate asymmetric keypair for secure sharing
+  // Generate an ECDH P-256 keypair for secure sharing: raw public key, PKCS#8 private key
   async generateKeypair(): Promise<{ publicKey: Uint8Array; privateKey: Uint8Array }> {
-    const keypair = await crypto.subtle.generateKey(
-      {
-        name: 'ECDH',
-        namedCurve: 'P-256'
-      },
-      true,
-      ['deriveBits']
-    );
+    return generateSharingKeypair();
+  }
 
-    const publicKey = await crypto.subtle.exportKey('raw', keypair.publicKey);
-    const privateKey = await crypto.subtle.exportKey('pkcs8', keypair.privateKey);
+  // Import a PKCS#8 private key as a non-extractable handle
+  async importPrivateKey(privateKey: Uint8Array): Promise<CryptoKey> {
+    return importPrivateKey(privateKey);
+  }
+
+  // Encrypt to a recipient's public key (ECDH + HKDF + AES-GCM, see sealedBox.ts)
+  async seal(data: string, recipientPublicKey: Uint8Array, aad: string): Promise<string> {
+    return sealToPublicKey(data, recipientPublicKey, aad);
+  }
 
-    return {
-      publicKey: new Uint8Array(publicKey),
-      privateKey: new Uint8Array(privateKey)
-    };
+  // Open a sealed box with our own keypair
+  async openSealed(sealed: string, privateKey: CryptoKey, publicKey: Uint8Array, aad: string): Promise<string> {
+    return openSealedBox(sealed, privateKey, publicKey, aad);
   }
 
   // TOTP related (for later phase)
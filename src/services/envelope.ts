@@ -0,0 +1,96 @@
+// Ciphertext envelope
+// AES-256-GCM with a versioned header:
+//   hk2.<algorithm>.<keyId>.<base64(iv || ciphertext)>
+// The header and the record's associated data are authenticated with the ciphertext,
+// so a blob moved to another record (or relabelled with another key) fails to decrypt.
+// Kept free of other imports so the decrypt worker can load it without libsodium.
+
+const ENVELOPE_VERSION = 'hk2';
+const ENVELOPE_ALGORITHM = 'A256GCM';
+const IV_LENGTH = 12;
+
+// Identifies the key a ciphertext was made with and binds it to the record it belongs to
+export interface EnvelopeContext {
+  keyId: string;
+  aad: string;
+}
+
+export const DEFAULT_CONTEXT: EnvelopeContext = { keyId: 'default', aad: '' };
+
+export async function encryptEnvelope(data: string, key: CryptoKey, context: EnvelopeContext): Promise<string> {
+  if (context.keyId.includes('.')) throw new Error('Key id must not contain "."');
+
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const header = `${ENVELOPE_VERSION}.${ENVELOPE_ALGORITHM}.${context.keyId}`;
+
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: buildAad(header, context.aad) },
+    key,
+    new TextEncoder().encode(data)
+  );
+
+  const result = new Uint8Array(iv.length + ciphertext.byteLength);
+  result.set(iv);
+  result.set(new Uint8Array(ciphertext), iv.length);
+
+  return `${header}.${toBase64(result)}`;
+}
+
+// Decrypt an envelope, or a legacy base64(iv || ciphertext) blob without associated data.
+// Legacy blobs are refused once the records they could belong to have all been upgraded.
+export async function decryptEnvelope(encryptedData: string, key: CryptoKey, aad: string, allowLegacy = true): Promise<string> {
+  let body = encryptedData;
+  let additionalData: Uint8Array<ArrayBuffer> | undefined;
+
+  if (isLegacyFormat(encryptedData)) {
+    if (!allowLegacy) throw new Error('Legacy ciphertext is no longer accepted for this record');
+  } else {
+    const parts = encryptedData.split('.');
+    if (parts.length !== 4 || parts[0] !== ENVELOPE_VERSION || parts[1] !== ENVELOPE_ALGORITHM) {
+      throw new Error('Unsupported ciphertext format');
+    }
+
+    body = parts[3];
+    additionalData = buildAad(parts.slice(0, 3).join('.'), aad);
+  }
+
+  const cipherBytes = fromBase64(body);
+  const iv = cipherBytes.slice(0, IV_LENGTH);
+  const ciphertext = cipherBytes.slice(IV_LENGTH);
+
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv, ...(additionalData && { additionalData }) },
+    key,
+    ciphertext
+  );
+
+  return new TextDecoder().decode(decrypted);
+}
+
+// Legacy blobs are plain base64, which never contains the "." envelope separator
+export function isLegacyFormat(encryptedData: string): boolean {
+  return !encryptedData.includes('.');
+}
+
+// Key id from an envelope header, null for legacy blobs
+export function getKeyId(encryptedData: string): string | null {
+  if (isLegacyFormat(encryptedData)) return null;
+  return encryptedData.split('.')[2] ?? null;
+}
+
+export function toBase64(data: Uint8Array): string {
+  return btoa(String.fromCharCode(...data));
+}
+
+export function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function buildAad(header: string, aad: string): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(`${header}|${aad}`);
+}
@@ -1,21 +1,63 @@
+// Local cache
+// Holds the server's ciphertext only: vault names, wrapped or sealed vault keys,
+// manifests and items exactly as stored in Supabase, still bound to their record
+// context (see RecordContext). Nothing readable is written to IndexedDB, opening the
+// cache takes the same keys as the server copy. Version 1 stored decrypted items and
+// vault names, opening the database with version 2 wipes them.
+//
+// Item changes waiting to reach the server are queued in mutations (see
+// SyncEngineService), their payloads encrypted with the vault key as well.
+//
+// The sync table keeps a cursor per vault, the latest server timestamp the cached items
+// are complete up to. Loads only fetch items changed since then (see
+// DatabaseService.getVaults).
+
 import Dexie from 'dexie';
-import { type Vault, type VaultItem } from '../stores/authStore';
 
-interface EncryptedData {
+export interface CachedVault {
   id: string;
-  vaultId: string;
-  data: string; // Encrypted JSON
-  type: string;
-  timestamp: string;
+  userId: string; // The signed in user the vault was cached for
+  nameEncrypted: string;
+  vaultKeyEncrypted: string | null; // Wrapped with the owner's master key, null for legacy and shared vaults
+  sharedKeyEncrypted: string | null; // Sealed to the member's public key, for shared vaults
+  manifestEncrypted: string | null;
+  legacyFormatRetired?: boolean; // Legacy ciphertext is refused for the vault (see DatabaseService.acceptsLegacyFormat)
+  createdAt: string;
+  updatedAt: string;
 }
 
-interface VaultMetadata {
+export interface CachedItem {
   id: string;
-  name: string; // Encrypted
+  vaultId: string;
+  dataEncrypted: string;
   createdAt: string;
   updatedAt: string;
 }
 
+// Sync table row holding the cursor of one vault
+interface SyncCursor {
+  id: string; // `cursor:${vaultId}`
+  vaultId: string;
+  cursor: string;
+}
+
+export type MutationType = 'create' | 'update' | 'delete';
+export type MutationStatus = 'pending' | 'syncing' | 'failed' | 'conflict';
+
+export interface QueuedMutation {
+  id: string;
+  userId: string;
+  type: MutationType;
+  vaultId: string;
+  itemId: string;
+  payloadEncrypted: string; // Bound to the mutation (see RecordContext.mutation)
+  status: MutationStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string;
+  createdAt: string;
+}
+
 class IndexedDBService {
   private static instance: IndexedDBService;
   private db: Dexie;
@@ -29,6 +71,22 @@ class IndexedDBService {
       items: 'id, vaultId, data, type, timestamp',
       sync: 'id, lastSynced, pendingChanges',
     });
+
+    // Version 1 rows are plaintext, drop them all. The cache is filled again from the
+    // server on the next load.
+    this.db.version(2).stores({
+      vaults: 'id, userId',
+      items: 'id, vaultId',
+      sync: 'id',
+    }).upgrade(tx => Promise.all([
+      tx.table('vaults').clear(),
+      tx.table('items').clear(),
+      tx.table('sync').clear(),
+    ]));
+
+    this.db.version(3).stores({
+      mutations: 'id, userId, createdAt',
+    });
   }
 
   static getInstance(): IndexedDBService {
@@ -51,59 +109,87 @@ class IndexedDBService {
   }
 
   // Vault operations
-  async saveVault(vault: Vault): Promise<void> {
+  async saveVault(vault: CachedVault): Promise<void> {
     await this.initialize();
+    await this.db.table('vaults').put(vault);
+  }
 
-    const metadata: VaultMetadata = {
-      id: vault.id,
-      name: vault.name, // Should be decrypted when saved
-      createdAt: vault.createdAt.toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
+  // Replace the cached vaults of a user with the ones just loaded. Vaults the user no
+  // longer has access to are dropped with their items and cursors.
+  async replaceVaults(userId: string, vaults: CachedVault[]): Promise<void> {
+    await this.initialize();
+
+    await this.db.transaction('rw', ['vaults', 'items', 'sync'], async () => {
+      const keep = new Set(vaults.map(vault => vault.id));
+      const cached: CachedVault[] = await this.db.table('vaults').where('userId').equals(userId).toArray();
+      const removed = cached.filter(vault => !keep.has(vault.id)).map(vault => vault.id);
 
-    await this.db.table('vaults').put(metadata);
+      await this.db.table('vaults').bulkDelete(removed);
+      await this.db.table('items').where('vaultId').anyOf(removed).delete();
+      await this.db.table('sync').bulkDelete(removed.map(cursorId));
+      await this.db.table('vaults').bulkPut(vaults);
+    });
+  }
+
+  async getVaults(userId: string): Promise<CachedVault[]> {
+    await this.initialize();
+    return this.db.table('vaults').where('userId').equals(userId).toArray();
   }
 
-  async getVaults(): Promise<VaultMetadata[]> {
+  async updateVaultName(vaultId: string, nameEncrypted: string): Promise<void> {
     await this.initialize();
-    return this.db.table('vaults').toArray();
+    await this.db.table('vaults').update(vaultId, { nameEncrypted, updatedAt: new Date().toISOString() });
   }
 
   async deleteVault(vaultId: string): Promise<void> {
     await this.initialize();
     await this.db.table('vaults').delete(vaultId);
     await this.db.table('items').where('vaultId').equals(vaultId).delete();
+    await this.db.table('sync').delete(cursorId(vaultId));
   }
 
   // Item operations
-  async saveVaultItem(item: VaultItem): Promise<void> {
-    await this.initialize();
-
-    const encryptedData: EncryptedData = {
-      id: item.id,
-      vaultId: item.vaultId,
-      data: JSON.stringify({
-        type: item.type,
-        name: item.name,
-        url: item.url,
-        username: item.username,
-        password: item.password,
-        notes: item.notes,
-        tags: item.tags,
-      }),
-      type: item.type,
-      timestamp: item.updatedAt.toISOString(),
-    };
-
-    await this.db.table('items').put(encryptedData);
+  async saveVaultItem(item: CachedItem): Promise<void> {
+    await this.initialize();
+    await this.db.table('items').put(item);
   }
 
-  async getVaultItems(vaultId: string): Promise<EncryptedData[]> {
+  async getVaultItems(vaultId: string): Promise<CachedItem[]> {
     await this.initialize();
     return this.db.table('items').where('vaultId').equals(vaultId).toArray();
   }
 
-  async getAllItems(): Promise<EncryptedData[]> {
+  async getItemsOfVaults(vaultIds: string[]): Promise<CachedItem[]> {
+    await this.initialize();
+    return this.db.table('items').where('vaultId').anyOf(vaultIds).toArray();
+  }
+
+  // Apply what a load fetched: the items of the vaults in replacedVaultIds are replaced,
+  // in the others changed items are written and deleted ones removed. Cursors are saved
+  // in the same transaction so they never run ahead of the cached items; a null cursor
+  // makes the next load fetch that vault in full.
+  async applyItemSync(
+    replacedVaultIds: string[],
+    items: CachedItem[],
+    deletedIds: string[],
+    cursors: Record<string, string | null>
+  ): Promise<void> {
+    await this.initialize();
+
+    await this.db.transaction('rw', ['items', 'sync'], async () => {
+      await this.db.table('items').where('vaultId').anyOf(replacedVaultIds).delete();
+      await this.db.table('items').bulkDelete(deletedIds);
+      await this.db.table('items').bulkPut(items);
+
+      const entries = Object.entries(cursors);
+      await this.db.table('sync').bulkDelete(entries.filter(([, cursor]) => !cursor).map(([vaultId]) => cursorId(vaultId)));
+      await this.db.table('sync').bulkPut(entries
+        .filter(([, cursor]) => cursor)
+        .map(([vaultId, cursor]): SyncCursor => ({ id: cursorId(vaultId), vaultId, cursor: cursor! })));
+    });
+  }
+
+  async getAllItems(): Promise<CachedItem[]> {
     await this.initialize();
     return this.db.table('items').toArray();
   }
@@ -129,15 +215,44 @@ class IndexedDBService {
     });
   }
 
-  // Bulk operations for sync
-  async bulkSaveVaults(vaults: VaultMetadata[]): Promise<void> {
+  // Cursors of the given vaults, for those that have one
+  async getSyncCursors(vaultIds: string[]): Promise<Record<string, string>> {
     await this.initialize();
-    await this.db.table('vaults').bulkPut(vaults);
+    const rows: (SyncCursor | undefined)[] = await this.db.table('sync').bulkGet(vaultIds.map(cursorId));
+    return Object.fromEntries(rows.flatMap(row => row ? [[row.vaultId, row.cursor]] : []));
   }
 
-  async bulkSaveItems(items: EncryptedData[]): Promise<void> {
+  // Make the next load fetch the vault in full
+  async clearSyncCursor(vaultId: string): Promise<void> {
     await this.initialize();
-    await this.db.table('items').bulkPut(items);
+    await this.db.table('sync').delete(cursorId(vaultId));
+  }
+
+  async getMutation(mutationId: string): Promise<QueuedMutation | undefined> {
+    await this.initialize();
+    return this.db.table('mutations').get(mutationId);
+  }
+
+  async addMutation(mutation: QueuedMutation): Promise<void> {
+    await this.initialize();
+    await this.db.table('mutations').add(mutation);
+  }
+
+  async updateMutation(mutationId: string, changes: Partial<QueuedMutation>): Promise<void> {
+    await this.initialize();
+    await this.db.table('mutations').update(mutationId, changes);
+  }
+
+  async deleteMutation(mutationId: string): Promise<void> {
+    await this.initialize();
+    await this.db.table('mutations').delete(mutationId);
+  }
+
+  // Queued item changes of a user, oldest first
+  async getPendingSync(userId: string): Promise<QueuedMutation[]> {
+    await this.initialize();
+    const mutations: QueuedMutation[] = await this.db.table('mutations').where('userId').equals(userId).toArray();
+    return mutations.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
   }
 
   // Clear all data (for logout/reset)
@@ -147,6 +262,7 @@ class IndexedDBService {
     await this.db.table('vaults').clear();
     await this.db.table('items').clear();
     await this.db.table('sync').clear();
+    await this.db.table('mutations').clear();
   }
 
   // Get storage information
@@ -162,13 +278,10 @@ class IndexedDBService {
       size: 0, // Estimating size would require more complex logic
     };
   }
+}
 
-  // Check if online data needs sync
-  async getPendingSync(): Promise<Vault[]> {
-    // This would be implemented to check what needs to be synced
-    // For now, return empty array
-    return [];
-  }
+function cursorId(vaultId: string): string {
+  return `cursor:${vaultId}`;
 }
 
 export default IndexedDBService.getInstance();
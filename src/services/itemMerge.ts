@@ -0,0 +1,74 @@
+// Item merge
+// An edit is made against the version of the item the user was looking at (the base).
+// When the item changed on the server since then, the edit is merged field by field:
+// fields only the user changed take the user's value, fields only the other side
+// changed keep theirs, and fields both changed to different values are conflicts that
+// the user resolves by hand (see ConflictResolutionModal).
+
+import type { VaultItem } from '../stores/authStore';
+
+// The encrypted fields of an item, as stored in its payload
+export type ItemFields = Pick<VaultItem, 'type' | 'name' | 'url' | 'username' | 'password' | 'notes' | 'tags' | 'revision'>;
+
+export type MergeableField = Exclude<keyof ItemFields, 'revision'>;
+
+export const MERGEABLE_FIELDS: MergeableField[] = ['type', 'name', 'url', 'username', 'password', 'notes', 'tags'];
+
+// Both sides of an edit that clashed with a change made elsewhere
+export interface ItemConflict {
+  itemId: string;
+  vaultId: string;
+  fields: MergeableField[]; // Changed on both sides
+  mine: ItemFields; // The server version with all of the local changes applied
+  theirs: ItemFields; // The server version
+}
+
+export interface MergeResult {
+  merged: ItemFields;
+  conflicts: MergeableField[];
+}
+
+class ItemMergeService {
+  private static instance: ItemMergeService;
+
+  static getInstance(): ItemMergeService {
+    if (!ItemMergeService.instance) {
+      ItemMergeService.instance = new ItemMergeService();
+    }
+    return ItemMergeService.instance;
+  }
+
+  // Three-way merge of updates made against base into the current server version.
+  // Without a base the updates simply win.
+  merge(base: ItemFields | undefined, current: ItemFields, updates: Partial<ItemFields>): MergeResult {
+    const merged: ItemFields = { ...current };
+    const conflicts: MergeableField[] = [];
+
+    for (const field of MERGEABLE_FIELDS) {
+      if (!(field in updates) || this.isEqual(updates[field], current[field])) continue;
+
+      if (!base || this.isEqual(current[field], base[field])) {
+        (merged as Record<MergeableField, unknown>)[field] = updates[field];
+      } else {
+        conflicts.push(field);
+      }
+    }
+
+    return { merged, conflicts };
+  }
+
+  // The fields of an item, dropping ids and timestamps
+  pick(item: Partial<VaultItem>): Partial<ItemFields> {
+    const fields: Partial<ItemFields> = {};
+    for (const field of [...MERGEABLE_FIELDS, 'revision'] as (keyof ItemFields)[]) {
+      if (field in item) (fields as Record<string, unknown>)[field] = item[field];
+    }
+    return fields;
+  }
+
+  isEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+  }
+}
+
+export default ItemMergeService.getInstance();
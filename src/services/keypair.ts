@@ -0,0 +1,77 @@
+// Sharing keypair
+// Every account has an ECDH P-256 keypair for vault sharing, created at signup. The
+// public key is stored in user_profiles for others to seal vault keys to. The private
+// key is stored wrapped under the master key and, once unlocked, only held as a
+// non-extractable handle. Master key changes re-wrap it with the rest of the profile.
+
+import EncryptionService, { type EnvelopeContext, type KeyMaterial } from './encryption';
+import DatabaseService, { type KeypairData, type UserProfile } from './database';
+
+const privateKeyContext = (userId: string): EnvelopeContext => ({ keyId: 'master', aad: `private-key:${userId}` });
+
+// The unlocked keypair of the signed in user
+export interface SharingKeys {
+  publicKey: Uint8Array;
+  privateKey: CryptoKey;
+}
+
+class KeypairService {
+  private static instance: KeypairService;
+
+  static getInstance(): KeypairService {
+    if (!KeypairService.instance) {
+      KeypairService.instance = new KeypairService();
+    }
+    return KeypairService.instance;
+  }
+
+  async create(userId: string, masterKey: KeyMaterial): Promise<KeypairData> {
+    const { publicKey, privateKey } = await EncryptionService.generateKeypair();
+
+    try {
+      return {
+        publicKey: EncryptionService.toBase64(publicKey),
+        privateKeyEncrypted: await EncryptionService.encrypt(EncryptionService.toBase64(privateKey), masterKey, privateKeyContext(userId)),
+      };
+    } finally {
+      EncryptionService.wipe(privateKey);
+    }
+  }
+
+  async unwrap(userId: string, keypair: KeypairData, masterKey: KeyMaterial): Promise<SharingKeys> {
+    const privateKeyBase64 = await EncryptionService.decrypt(keypair.privateKeyEncrypted, masterKey, privateKeyContext(userId));
+    const privateKeyBytes = EncryptionService.fromBase64(privateKeyBase64);
+
+    try {
+      return {
+        publicKey: EncryptionService.fromBase64(keypair.publicKey),
+        privateKey: await EncryptionService.importPrivateKey(privateKeyBytes),
+      };
+    } finally {
+      EncryptionService.wipe(privateKeyBytes);
+    }
+  }
+
+  // Re-wrap the private key for a new master key
+  async rewrap(userId: string, privateKeyEncrypted: string, oldKey: KeyMaterial, newKey: Uint8Array): Promise<string> {
+    const privateKeyBase64 = await EncryptionService.decrypt(privateKeyEncrypted, oldKey, privateKeyContext(userId));
+    return EncryptionService.encrypt(privateKeyBase64, newKey, privateKeyContext(userId));
+  }
+
+  // Unlock the keypair after unlocking the master key. Accounts created before sharing
+  // keys get one generated here.
+  async open(userId: string, masterKey: CryptoKey, profile?: UserProfile | null): Promise<SharingKeys> {
+    profile ??= await DatabaseService.getUserProfile(userId);
+    if (!profile) throw new Error('No encryption profile found for this account');
+
+    if (profile.keypair) {
+      return this.unwrap(userId, profile.keypair, masterKey);
+    }
+
+    // Another device may have generated one first, in which case that one is used
+    const keypair = await DatabaseService.saveKeypair(userId, await this.create(userId, masterKey));
+    return this.unwrap(userId, keypair, masterKey);
+  }
+}
+
+export default KeypairService.getInstance();
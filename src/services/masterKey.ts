@@ -0,0 +1,257 @@
+// Master key management
+// Re-wraps every vault key when the master key changes (KDF upgrade, password change)
+// in a way that can be resumed: the old master key stays reachable from the new one
+// until the last vault key has been moved over. Keys of rotations in progress move with
+// them. Vaults still keyed with the master key are moved onto a key of their own first,
+// so the old master key never lives on as a vault key. Master keys are passed in as
+// raw bytes here because they are wrapped; callers wipe them afterwards.
+
+import EncryptionService, { CURRENT_KDF_PARAMS, type KdfParams, type KeyMaterial } from './encryption';
+import DatabaseService, { RecordContext, type UserProfile, type WrappedVaultKey } from './database';
+import RecoveryService from './recovery';
+import KeypairService from './keypair';
+
+// Outcome of checking a master key. Unverifiable when the account holds nothing
+// encrypted with it to check against.
+export type KeyVerification = 'valid' | 'invalid' | 'unverifiable';
+
+class MasterKeyService {
+  private static instance: MasterKeyService;
+
+  static getInstance(): MasterKeyService {
+    if (!MasterKeyService.instance) {
+      MasterKeyService.instance = new MasterKeyService();
+    }
+    return MasterKeyService.instance;
+  }
+
+  // Derive a key with the current recommended parameters and move the account to it.
+  // Returns the new master key.
+  async upgradeKdf(userId: string, password: string, currentKey: Uint8Array): Promise<Uint8Array> {
+    const salt = EncryptionService.generateSalt();
+    const newKey = await EncryptionService.deriveMasterKey(password, salt, CURRENT_KDF_PARAMS);
+
+    try {
+      await this.rekey(userId, currentKey, newKey, salt, CURRENT_KDF_PARAMS);
+    } catch (error) {
+      EncryptionService.wipe(newKey);
+      throw error;
+    }
+
+    return newKey;
+  }
+
+  // Derive a key for a new master password and move the account to it. Vault names,
+  // items and item history are encrypted with vault keys, so only the vault keys are
+  // re-wrapped. The profile is flagged until the auth password has been updated too.
+  async changePassword(userId: string, currentKey: Uint8Array, newPassword: string): Promise<Uint8Array> {
+    const salt = EncryptionService.generateSalt();
+    const newKey = await EncryptionService.deriveMasterKey(newPassword, salt, CURRENT_KDF_PARAMS);
+
+    await this.rekey(userId, currentKey, newKey, salt, CURRENT_KDF_PARAMS, { authUpdatePending: true });
+
+    return newKey;
+  }
+
+  // Check a master key against the profile's key check value. Profiles created before
+  // key checks are verified against the wrapped vault keys and the sharing keypair, and
+  // get one backfilled only once that succeeded: a key nothing could be checked against
+  // may come from a mistyped password.
+  async verifyMasterKey(userId: string, masterKey: KeyMaterial, profile?: UserProfile | null): Promise<KeyVerification> {
+    profile ??= await DatabaseService.getUserProfile(userId);
+    if (!profile) return 'invalid';
+
+    if (profile.keyCheckEncrypted) {
+      return await EncryptionService.verifyKeyCheck(profile.keyCheckEncrypted, masterKey) ? 'valid' : 'invalid';
+    }
+
+    const verification = await this.verifyAgainstWrappedKeys(userId, masterKey, profile);
+    if (verification === 'valid') {
+      await DatabaseService.saveKeyCheck(userId, await EncryptionService.createKeyCheck(masterKey));
+    }
+    return verification;
+  }
+
+  private async verifyAgainstWrappedKeys(userId: string, masterKey: KeyMaterial, profile: UserProfile): Promise<KeyVerification> {
+    const rows = await DatabaseService.getWrappedVaultKeys(userId);
+    if (rows.length === 0 && !profile.keypair) return 'unverifiable';
+
+    try {
+      for (const row of rows) {
+        if (row.vaultKeyEncrypted) {
+          await DatabaseService.unwrapVaultKey(row.id, row.vaultKeyEncrypted, masterKey);
+        } else {
+          await EncryptionService.decrypt(row.nameEncrypted, masterKey, RecordContext.vaultName(row.id));
+        }
+      }
+      if (profile.keypair) await KeypairService.unwrap(userId, profile.keypair, masterKey);
+      return 'valid';
+    } catch {
+      return 'invalid';
+    }
+  }
+
+  // Move vaults whose key is the master key onto a key of their own (see
+  // DatabaseService.adoptLegacyVaultKey): those from before per-vault keys, and those an
+  // earlier version adopted by wrapping a copy of the master key
+  async adoptLegacyVaults(userId: string, masterKey: Uint8Array): Promise<void> {
+    const rows = await DatabaseService.getWrappedVaultKeys(userId);
+
+    for (const row of rows) {
+      if (row.pendingVaultKeyEncrypted) continue; // Already moving to a key of its own
+      if (row.vaultKeyEncrypted) {
+        const vaultKey = await DatabaseService.unwrapVaultKeyBytes(row.id, row.vaultKeyEncrypted, masterKey);
+        const isMasterKey = bytesEqual(vaultKey, masterKey);
+        EncryptionService.wipe(vaultKey);
+        if (!isMasterKey) continue;
+      }
+
+      await DatabaseService.adoptLegacyVaultKey(row.id, masterKey);
+    }
+  }
+
+  // Replace the master key. The profile is switched first, storing the old key wrapped
+  // under the new one, so an interrupted run can always be finished with resumeRekey.
+  // Once the profile has switched this never throws: the account is on the new key,
+  // and callers must switch to it even if some vault keys are still left behind.
+  async rekey(
+    userId: string,
+    currentKey: Uint8Array,
+    newKey: Uint8Array,
+    salt: Uint8Array,
+    kdf: KdfParams,
+    options: { authUpdatePending?: boolean } = {}
+  ): Promise<void> {
+    // Re-wrapped as it is, the key of a vault still keyed with the master key would stay
+    // its vault key once it is no longer the master key, where nothing tells it apart any
+    // more. Adopting starts a rotation to a fresh key, and such vaults cannot be shared
+    // until it has finished.
+    await this.adoptLegacyVaults(userId, currentKey);
+
+    const rows = await DatabaseService.getWrappedVaultKeys(userId);
+    const profile = await DatabaseService.getUserProfile(userId);
+
+    // Unwrap everything up front: a failure here means currentKey is wrong and nothing is touched
+    const vaultKeys = new Map<string, Uint8Array>();
+    const pendingKeys = new Map<string, Uint8Array>();
+    const wipeKeys = () => [...vaultKeys.values(), ...pendingKeys.values()].forEach(key => EncryptionService.wipe(key));
+    try {
+      for (const row of rows) {
+        vaultKeys.set(row.id, await this.unwrapWithKey(row, currentKey));
+        if (row.pendingVaultKeyEncrypted) {
+          pendingKeys.set(row.id, await DatabaseService.unwrapVaultKeyBytes(row.id, row.pendingVaultKeyEncrypted, currentKey));
+        }
+      }
+    } catch (error) {
+      wipeKeys();
+      throw error;
+    }
+    const recovery = profile?.recovery
+      ? await RecoveryService.rewrap(userId, profile.recovery, currentKey, newKey)
+      : undefined;
+    const privateKeyEncrypted = profile?.keypair
+      ? await KeypairService.rewrap(userId, profile.keypair.privateKeyEncrypted, currentKey, newKey)
+      : undefined;
+
+    const previousKeyEncrypted = await EncryptionService.encrypt(EncryptionService.toBase64(currentKey), newKey);
+    const keyCheckEncrypted = await EncryptionService.createKeyCheck(newKey);
+    try {
+      await DatabaseService.updateKeyDerivation(userId, salt, kdf, keyCheckEncrypted, previousKeyEncrypted, {
+        authUpdatePending: options.authUpdatePending,
+        recovery,
+        privateKeyEncrypted,
+      });
+    } catch (error) {
+      // Only the response may have been lost, with the profile switched all the same
+      const switched = await DatabaseService.getUserProfile(userId).catch(() => null);
+      if (!switched?.keyCheckEncrypted || !await EncryptionService.verifyKeyCheck(switched.keyCheckEncrypted, newKey)) {
+        wipeKeys();
+        throw error;
+      }
+    }
+
+    try {
+      for (const [vaultId, vaultKey] of vaultKeys) {
+        await DatabaseService.updateWrappedVaultKey(vaultId, await DatabaseService.wrapVaultKey(vaultId, vaultKey, newKey));
+      }
+      for (const [vaultId, pendingKey] of pendingKeys) {
+        await DatabaseService.updatePendingVaultKey(vaultId, await DatabaseService.wrapVaultKey(vaultId, pendingKey, newKey));
+      }
+      await DatabaseService.clearPreviousKey(userId);
+    } catch (error) {
+      // Try once more from the stored previous key, what is still left is finished on
+      // the next unlock
+      console.error('Error re-wrapping vault keys:', error);
+      await this.resumeRekey(userId, newKey, previousKeyEncrypted)
+        .catch(resumeError => console.error('Error resuming master key change:', resumeError));
+    } finally {
+      wipeKeys();
+    }
+  }
+
+  // Finish a master key change that was interrupted after the profile switched over
+  async resumeRekey(userId: string, masterKey: KeyMaterial, previousKeyEncrypted: string): Promise<void> {
+    const previousKeyBase64 = await EncryptionService.decrypt(previousKeyEncrypted, masterKey);
+    const previousKey = EncryptionService.fromBase64(previousKeyBase64);
+    const rows = await DatabaseService.getWrappedVaultKeys(userId);
+    let complete = true;
+
+    try {
+      for (const row of rows) {
+        try {
+          if (!await this.isWrappedWith(row.id, row.vaultKeyEncrypted, masterKey)) {
+            const vaultKey = await this.unwrapWithKey(row, previousKey);
+            try {
+              await DatabaseService.updateWrappedVaultKey(row.id, await DatabaseService.wrapVaultKey(row.id, vaultKey, masterKey));
+            } finally {
+              EncryptionService.wipe(vaultKey);
+            }
+          }
+
+          if (row.pendingVaultKeyEncrypted && !await this.isWrappedWith(row.id, row.pendingVaultKeyEncrypted, masterKey)) {
+            const pendingKey = await DatabaseService.unwrapVaultKeyBytes(row.id, row.pendingVaultKeyEncrypted, previousKey);
+            try {
+              await DatabaseService.updatePendingVaultKey(row.id, await DatabaseService.wrapVaultKey(row.id, pendingKey, masterKey));
+            } finally {
+              EncryptionService.wipe(pendingKey);
+            }
+          }
+        } catch (error) {
+          console.error(`Error re-wrapping vault key ${row.id}:`, error);
+          complete = false;
+        }
+      }
+    } finally {
+      EncryptionService.wipe(previousKey);
+    }
+
+    // Keep the previous key around until every vault has been moved over
+    if (complete) {
+      await DatabaseService.clearPreviousKey(userId);
+    }
+  }
+
+  // Whether a wrapped vault key was already moved to the new master key
+  private async isWrappedWith(vaultId: string, vaultKeyEncrypted: string | null, masterKey: KeyMaterial): Promise<boolean> {
+    if (!vaultKeyEncrypted) return false;
+    return DatabaseService.unwrapVaultKey(vaultId, vaultKeyEncrypted, masterKey).then(() => true, () => false);
+  }
+
+  // Unwrap a vault key, treating vaults without a wrapped key as legacy vaults whose
+  // contents were encrypted with the master key itself
+  private async unwrapWithKey(row: WrappedVaultKey, masterKey: Uint8Array): Promise<Uint8Array> {
+    if (row.vaultKeyEncrypted) {
+      return DatabaseService.unwrapVaultKeyBytes(row.id, row.vaultKeyEncrypted, masterKey);
+    }
+
+    // Decrypting the name proves the key is right before adopting it
+    await EncryptionService.decrypt(row.nameEncrypted, masterKey, RecordContext.vaultName(row.id));
+    return new Uint8Array(masterKey);
+  }
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, index) => byte === b[index]);
+}
+
+export default MasterKeyService.getInstance();
@@ -0,0 +1,170 @@
+// PIN quick unlock
+// The master key is wrapped on this device under an unlock key made from two halves: a
+// key derived from the PIN, and a random secret held by the server. The PIN salt and KDF
+// parameters are stored next to the wrapped key so the same PIN always derives the same
+// key. The server only releases its secret for a verifier derived from the right PIN,
+// counts wrong ones and deletes the secret after too many, which leaves the master
+// password as the only way in. A copy of this device's storage is no use for guessing
+// PINs offline, and clearing it does not reset the count.
+
+import EncryptionService, { type KdfParams, type KeyMaterial } from './encryption';
+import DatabaseService from './database';
+
+// PINs have little entropy, so the wrapped key relies on a memory-hard KDF
+const PIN_KDF_PARAMS: KdfParams = {
+  algorithm: 'argon2id',
+  memory: 64 * 1024 * 1024,
+  ops: 3,
+  version: 1,
+};
+
+// Device-local quick unlock state, persisted with the rest of the auth store
+export interface PinState {
+  encryptedPinKey: string | null; // Master key wrapped under the unlock key
+  pinKeyEncrypted: string | null; // Unlock key wrapped by the master key, to re-wrap on key changes
+  pinSalt: string | null; // Base64 salt for the PIN key derivation
+  pinKdf: KdfParams | null;
+}
+
+// The raw master key for the right PIN, otherwise the attempts left. No attempts left
+// means the server deleted its secret; null means it has none for this device.
+export type PinUnlockResult =
+  | { masterKey: Uint8Array }
+  | { masterKey: null; attemptsLeft: number | null };
+
+export const EMPTY_PIN_STATE: PinState = {
+  encryptedPinKey: null,
+  pinKeyEncrypted: null,
+  pinSalt: null,
+  pinKdf: null,
+};
+
+class PinUnlockService {
+  private static instance: PinUnlockService;
+
+  static getInstance(): PinUnlockService {
+    if (!PinUnlockService.instance) {
+      PinUnlockService.instance = new PinUnlockService();
+    }
+    return PinUnlockService.instance;
+  }
+
+  // Validate PIN format
+  validatePin(pin: string): string | null {
+    if (!/^\d+$/.test(pin)) return 'PIN must contain only digits';
+    if (pin.length < 4 || pin.length > 12) return 'PIN must be 4 to 12 digits';
+    return null;
+  }
+
+  // Whether the state holds a complete PIN setup. Setups from before the PIN salt was
+  // stored can never be unwrapped and count as not configured.
+  isConfigured(state: PinState): boolean {
+    return !!(state.encryptedPinKey && state.pinSalt && state.pinKdf);
+  }
+
+  // Wrap the raw master key under a new PIN, registering the server half for the device
+  async createPinState(pin: string, masterKey: Uint8Array, deviceId: string): Promise<PinState> {
+    const salt = EncryptionService.generateSalt();
+    const pinKey = await EncryptionService.derivePinKey(pin, salt, PIN_KDF_PARAMS);
+    const secret = EncryptionService.generateRandomKey();
+    let unlockKey: Uint8Array | null = null;
+
+    try {
+      await DatabaseService.registerPinUnlock(
+        deviceId,
+        EncryptionService.toBase64(await this.deriveSubkey(pinKey, 'verifier')),
+        EncryptionService.toBase64(secret)
+      );
+      unlockKey = await this.deriveSubkey(pinKey, 'unlock', secret);
+
+      return {
+        encryptedPinKey: await EncryptionService.encrypt(EncryptionService.toBase64(masterKey), unlockKey),
+        pinKeyEncrypted: await EncryptionService.encrypt(EncryptionService.toBase64(unlockKey), masterKey),
+        pinSalt: EncryptionService.toBase64(salt),
+        pinKdf: PIN_KDF_PARAMS,
+      };
+    } finally {
+      EncryptionService.wipe(pinKey);
+      EncryptionService.wipe(secret);
+      if (unlockKey) EncryptionService.wipe(unlockKey);
+    }
+  }
+
+  // Unwrap the raw master key with a PIN. Every wrong PIN counts against the server's
+  // limit, so this needs a connection.
+  async unwrapMasterKey(pin: string, state: PinState, deviceId: string): Promise<PinUnlockResult> {
+    if (!this.isConfigured(state)) throw new Error('PIN not set');
+
+    const salt = EncryptionService.fromBase64(state.pinSalt!);
+    const pinKey = await EncryptionService.derivePinKey(pin, salt, state.pinKdf!);
+    let secret: Uint8Array | null = null;
+    let unlockKey: Uint8Array | null = null;
+
+    try {
+      const verifier = EncryptionService.toBase64(await this.deriveSubkey(pinKey, 'verifier'));
+      const released = await DatabaseService.releasePinUnlock(deviceId, verifier);
+      if (!released.secret) return { masterKey: null, attemptsLeft: released.attemptsLeft };
+
+      secret = EncryptionService.fromBase64(released.secret);
+      unlockKey = await this.deriveSubkey(pinKey, 'unlock', secret);
+      const masterKeyBase64 = await EncryptionService.decrypt(state.encryptedPinKey!, unlockKey);
+      return { masterKey: EncryptionService.fromBase64(masterKeyBase64) };
+    } finally {
+      EncryptionService.wipe(pinKey);
+      if (secret) EncryptionService.wipe(secret);
+      if (unlockKey) EncryptionService.wipe(unlockKey);
+    }
+  }
+
+  // Remove the server half of the device's PIN unlock key. The PIN stops working even
+  // if the local state is restored.
+  async removeServerKey(deviceId: string): Promise<void> {
+    try {
+      await DatabaseService.deletePinUnlock(deviceId);
+    } catch (error) {
+      // The key is still limited to the remaining attempts
+      console.error('Error removing PIN unlock key:', error);
+    }
+  }
+
+  // Re-wrap the PIN blob for a new master key without asking for the PIN again. The
+  // server half stays the same. Setups that cannot be carried over are cleared.
+  async rewrap(state: PinState, oldKey: KeyMaterial, newKey: Uint8Array): Promise<Partial<PinState>> {
+    if (!state.encryptedPinKey) return {};
+    if (!this.isConfigured(state) || !state.pinKeyEncrypted) return EMPTY_PIN_STATE;
+
+    try {
+      const unlockKey = EncryptionService.fromBase64(await EncryptionService.decrypt(state.pinKeyEncrypted, oldKey));
+
+      try {
+        return {
+          encryptedPinKey: await EncryptionService.encrypt(EncryptionService.toBase64(newKey), unlockKey),
+          pinKeyEncrypted: await EncryptionService.encrypt(EncryptionService.toBase64(unlockKey), newKey),
+        };
+      } finally {
+        EncryptionService.wipe(unlockKey);
+      }
+    } catch (error) {
+      console.error('Error re-wrapping PIN key:', error);
+      return EMPTY_PIN_STATE;
+    }
+  }
+
+  // Separate keys from the PIN key for proving the PIN to the server and for unlocking.
+  // The verifier is useless for guessing PINs without the salt kept on the device.
+  private async deriveSubkey(pinKey: Uint8Array, purpose: string, secret?: Uint8Array): Promise<Uint8Array> {
+    const label = new TextEncoder().encode(`hushkey-pin-${purpose}`);
+    const input = new Uint8Array(label.length + pinKey.length + (secret?.length ?? 0));
+    input.set(label);
+    input.set(pinKey, label.length);
+    if (secret) input.set(secret, label.length + pinKey.length);
+
+    try {
+      return new Uint8Array(await crypto.subtle.digest('SHA-256', input));
+    } finally {
+      EncryptionService.wipe(input);
+    }
+  }
+}
+
+export default PinUnlockService.getInstance();
@@ -0,0 +1,178 @@
+// Realtime sync
+// While unlocked, the store follows changes to the user's own vaults and to the items of
+// every loaded vault, shared ones included, and applies them as they arrive. Item rows
+// are decrypted with the vault key and patched in one at a time. Anything that cannot be
+// applied that way (vaults added or removed, rows the current key cannot open after a
+// rotation on another device) asks for a reload instead. So do items that are new and
+// deletions: only a load checks them against the vault's manifest (see
+// VaultManifestService), which is what tells an item slipped in or removed by the
+// server apart from a real change. Events sent while the
+// connection was down are lost, so a channel joining again does the same: a reload only
+// fetches what changed since the last one (see DatabaseService.getVaults).
+
+import type { RealtimeChannel, RealtimePostgresChangesPayload, REALTIME_SUBSCRIBE_STATES } from '@supabase/supabase-js';
+import EncryptionService from './encryption';
+import DatabaseService, { RecordContext, type ItemRow, type TombstoneRow, type VaultChangeRow } from './database';
+import type { VaultItem } from '../stores/authStore';
+
+// Reconnecting channels are checked together
+const GAP_CHECK_DELAY_MS = 1000;
+
+export interface RealtimeHandlers {
+  getVaultKey: (vaultId: string) => CryptoKey | undefined; // Undefined skips the event, e.g. during a key rotation
+  hasItem: (vaultId: string, itemId: string) => boolean; // Loaded, so checked against the manifest
+  onItemChanged: (item: VaultItem) => void; // Newer revision of a loaded item
+  onVaultRenamed: (vaultId: string, name: string) => void;
+  onGap: () => void; // Reload to catch up
+}
+
+class RealtimeSyncService {
+  private static instance: RealtimeSyncService;
+  private userId: string | null = null;
+  private handlers: RealtimeHandlers | null = null;
+  private vaultChannel: RealtimeChannel | null = null;
+  private itemChannels = new Map<string, RealtimeChannel>();
+  private joined = new Set<string>(); // Channels that were subscribed before
+  private gapTimer: ReturnType<typeof setTimeout> | null = null;
+
+  static getInstance(): RealtimeSyncService {
+    if (!RealtimeSyncService.instance) {
+      RealtimeSyncService.instance = new RealtimeSyncService();
+    }
+    return RealtimeSyncService.instance;
+  }
+
+  // Start following the user's vaults. Does nothing if already running for this user.
+  start(userId: string, handlers: RealtimeHandlers): void {
+    if (this.userId === userId) return;
+    this.stop();
+
+    this.userId = userId;
+    this.handlers = handlers;
+    this.vaultChannel = DatabaseService.subscribeToVaultUpdates(
+      userId,
+      payload => { this.handleVaultChange(payload); },
+      status => this.handleStatus(`vaults_${userId}`, status)
+    );
+  }
+
+  // Follow the items of exactly these vaults
+  watchVaults(vaultIds: string[]): void {
+    if (!this.handlers) return;
+
+    for (const [vaultId, channel] of this.itemChannels) {
+      if (vaultIds.includes(vaultId)) continue;
+      this.removeChannel(`items_${vaultId}`, channel);
+      this.itemChannels.delete(vaultId);
+    }
+
+    for (const vaultId of vaultIds) {
+      if (this.itemChannels.has(vaultId)) continue;
+      this.itemChannels.set(vaultId, DatabaseService.subscribeToItemUpdates(
+        vaultId,
+        payload => { this.handleItemChange(vaultId, payload); },
+        tombstone => this.handleItemDeleted(tombstone),
+        status => this.handleStatus(`items_${vaultId}`, status)
+      ));
+    }
+  }
+
+  // Drop every subscription, on lock and sign-out
+  stop(): void {
+    if (this.vaultChannel) this.removeChannel(`vaults_${this.userId}`, this.vaultChannel);
+    this.itemChannels.forEach((channel, vaultId) => this.removeChannel(`items_${vaultId}`, channel));
+
+    if (this.gapTimer) {
+      clearTimeout(this.gapTimer);
+      this.gapTimer = null;
+    }
+
+    this.vaultChannel = null;
+    this.itemChannels.clear();
+    this.joined.clear();
+    this.handlers = null;
+    this.userId = null;
+  }
+
+  private removeChannel(key: string, channel: RealtimeChannel): void {
+    this.joined.delete(key);
+    DatabaseService.unsubscribe(channel).catch(error => console.error('Error closing realtime channel:', error));
+  }
+
+  // A channel subscribed again after an error or timeout has missed events
+  private handleStatus(key: string, status: `${REALTIME_SUBSCRIBE_STATES}`): void {
+    if (status === 'SUBSCRIBED') {
+      if (this.joined.has(key)) this.requestGapCheck();
+      this.joined.add(key);
+    } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+      console.error(`Realtime channel ${key}: ${status}`);
+    }
+  }
+
+  private requestGapCheck(): void {
+    if (this.gapTimer) clearTimeout(this.gapTimer);
+    this.gapTimer = setTimeout(() => {
+      this.gapTimer = null;
+      this.handlers?.onGap();
+    }, GAP_CHECK_DELAY_MS);
+  }
+
+  private async handleVaultChange(payload: RealtimePostgresChangesPayload<VaultChangeRow>): Promise<void> {
+    const handlers = this.handlers;
+    if (!handlers) return;
+
+    if (payload.eventType !== 'UPDATE') {
+      this.requestGapCheck();
+      return;
+    }
+
+    // Most updates only record item changes in the manifest, the name stays the same
+    const vaultKey = handlers.getVaultKey(payload.new.id);
+    if (!vaultKey) return;
+
+    try {
+      const name = await EncryptionService.decrypt(
+        payload.new.name_encrypted,
+        vaultKey,
+        RecordContext.vaultName(payload.new.id),
+        DatabaseService.acceptsLegacyFormat(payload.new.id)
+      );
+      if (this.handlers === handlers) handlers.onVaultRenamed(payload.new.id, name);
+    } catch {
+      // Rotated to a key this device does not have yet
+      this.requestGapCheck();
+    }
+  }
+
+  private async handleItemChange(vaultId: string, payload: RealtimePostgresChangesPayload<ItemRow>): Promise<void> {
+    const handlers = this.handlers;
+    if (!handlers) return;
+
+    if (payload.eventType === 'DELETE') {
+      if (payload.old.id && handlers.hasItem(vaultId, payload.old.id)) this.requestGapCheck();
+      return;
+    }
+
+    if (!handlers.hasItem(vaultId, payload.new.id)) {
+      this.requestGapCheck();
+      return;
+    }
+
+    const vaultKey = handlers.getVaultKey(vaultId);
+    if (!vaultKey) return;
+
+    try {
+      const item = await DatabaseService.decryptItem(payload.new, vaultKey);
+      if (this.handlers === handlers) handlers.onItemChanged(item);
+    } catch {
+      this.requestGapCheck();
+    }
+  }
+
+  // Already gone when the deletion was made on this device
+  private handleItemDeleted(tombstone: TombstoneRow): void {
+    if (this.handlers?.hasItem(tombstone.vault_id, tombstone.item_id)) this.requestGapCheck();
+  }
+}
+
+export default RealtimeSyncService.getInstance();
@@ -0,0 +1,158 @@
+// Account recovery key
+// A random 256-bit key created at signup and shown to the user once, as a recovery kit.
+// It wraps the master key in user_profiles, so a forgotten master password can be
+// replaced without losing any data. The recovery key is itself wrapped by the master
+// key, which lets master key changes re-wrap it without asking for the kit.
+
+import QRCode from 'qrcode';
+import EncryptionService, { type EnvelopeContext, type KeyMaterial } from './encryption';
+import type { RecoveryKeyData } from './database';
+
+const RECOVERY_KEY_LENGTH = 32;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const GROUP_SIZE = 4;
+
+const masterKeyContext = (userId: string): EnvelopeContext => ({ keyId: 'recovery', aad: `recovery-master:${userId}` });
+const recoveryKeyContext = (userId: string): EnvelopeContext => ({ keyId: 'master', aad: `recovery-key:${userId}` });
+
+class RecoveryService {
+  private static instance: RecoveryService;
+
+  static getInstance(): RecoveryService {
+    if (!RecoveryService.instance) {
+      RecoveryService.instance = new RecoveryService();
+    }
+    return RecoveryService.instance;
+  }
+
+  // Create a new recovery key for a raw master key. The returned key is shown to the
+  // user and never stored.
+  async create(userId: string, masterKey: Uint8Array): Promise<{ recoveryKey: string; recovery: RecoveryKeyData }> {
+    const recoveryKeyBytes = EncryptionService.generateRandomKey();
+
+    try {
+      return {
+        recoveryKey: this.format(recoveryKeyBytes),
+        recovery: await this.wrap(userId, recoveryKeyBytes, masterKey),
+      };
+    } finally {
+      EncryptionService.wipe(recoveryKeyBytes);
+    }
+  }
+
+  // Unwrap the raw master key with a recovery key typed in by the user
+  async unwrapMasterKey(userId: string, recoveryKey: string, recovery: RecoveryKeyData): Promise<Uint8Array> {
+    const recoveryKeyBytes = this.parse(recoveryKey);
+
+    try {
+      const masterKeyBase64 = await EncryptionService.decrypt(recovery.masterKeyEncrypted, recoveryKeyBytes, masterKeyContext(userId));
+      return EncryptionService.fromBase64(masterKeyBase64);
+    } catch {
+      throw new Error('Invalid recovery key');
+    } finally {
+      EncryptionService.wipe(recoveryKeyBytes);
+    }
+  }
+
+  // Re-wrap recovery data for a new master key, keeping the same recovery key
+  async rewrap(userId: string, recovery: RecoveryKeyData, oldKey: KeyMaterial, newKey: Uint8Array): Promise<RecoveryKeyData> {
+    const recoveryKeyBase64 = await EncryptionService.decrypt(recovery.recoveryKeyEncrypted, oldKey, recoveryKeyContext(userId));
+    const recoveryKeyBytes = EncryptionService.fromBase64(recoveryKeyBase64);
+
+    try {
+      return await this.wrap(userId, recoveryKeyBytes, newKey);
+    } finally {
+      EncryptionService.wipe(recoveryKeyBytes);
+    }
+  }
+
+  private async wrap(userId: string, recoveryKeyBytes: Uint8Array, masterKey: Uint8Array): Promise<RecoveryKeyData> {
+    return {
+      masterKeyEncrypted: await EncryptionService.encrypt(EncryptionService.toBase64(masterKey), recoveryKeyBytes, masterKeyContext(userId)),
+      recoveryKeyEncrypted: await EncryptionService.encrypt(EncryptionService.toBase64(recoveryKeyBytes), masterKey, recoveryKeyContext(userId)),
+    };
+  }
+
+  // Base32 in dash-separated groups, e.g. ABCD-EFGH-...
+  private format(bytes: Uint8Array): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of bytes) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output.match(new RegExp(`.{1,${GROUP_SIZE}}`, 'g'))!.join('-');
+  }
+
+  // Accepts the key with or without dashes, spaces and in any case
+  private parse(recoveryKey: string): Uint8Array {
+    const input = recoveryKey.toUpperCase().replace(/[\s-]/g, '');
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+
+    for (const char of input) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) throw new Error('Invalid recovery key');
+
+      value = (value << 5) | index;
+      bits += 5;
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 255);
+        bits -= 8;
+      }
+    }
+
+    if (bytes.length !== RECOVERY_KEY_LENGTH) throw new Error('Invalid recovery key');
+    return new Uint8Array(bytes);
+  }
+
+  // QR code of the recovery key as a data URL, rendered locally
+  async createQrCode(recoveryKey: string): Promise<string> {
+    return QRCode.toDataURL(recoveryKey, { errorCorrectionLevel: 'M', margin: 2, width: 240 });
+  }
+
+  // Self-contained HTML document for printing or downloading
+  async createKit(email: string, recoveryKey: string): Promise<string> {
+    const qrCode = await this.createQrCode(recoveryKey);
+    const escape = (text: string) => text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>HushKey Recovery Kit</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 640px; margin: 2rem auto; color: #111827; }
+  h1 { font-size: 1.5rem; }
+  .field { margin: 1.5rem 0; }
+  .label { font-size: 0.8rem; text-transform: uppercase; color: #6b7280; }
+  .key { font-family: monospace; font-size: 1.1rem; word-break: break-all; padding: 0.75rem; border: 1px dashed #9ca3af; }
+  .note { font-size: 0.9rem; color: #374151; }
+</style>
+</head>
+<body>
+  <h1>HushKey Recovery Kit</h1>
+  <p class="note">Created ${escape(new Date().toLocaleDateString())}. Keep this document somewhere safe and offline.
+  Anyone with this recovery key and access to your email can take over your account.</p>
+  <div class="field"><div class="label">Account email</div><div>${escape(email)}</div></div>
+  <div class="field"><div class="label">Recovery key</div><div class="key">${escape(recoveryKey)}</div></div>
+  <div class="field"><img src="${qrCode}" alt="Recovery key QR code" width="240" height="240"></div>
+  <p class="note">If you forget your master password, choose "Recover account" on the sign-in screen,
+  follow the link sent to your email and enter this recovery key to set a new master password.</p>
+</body>
+</html>`;
+  }
+}
+
+export default RecoveryService.getInstance();
@@ -0,0 +1,77 @@
+// Sealed boxes
+// Public-key encryption to a recipient's ECDH P-256 key:
+//   hks1.<base64(ephemeral public key)>.<envelope>
+// A fresh ephemeral keypair is agreed with the recipient's public key, the shared
+// secret is run through HKDF-SHA-256 (salted with both public keys) into an AES-256-GCM
+// key, and the data is encrypted as a regular envelope under it. Only the holder of the
+// recipient's private key can derive the same AES key.
+
+import { decryptEnvelope, encryptEnvelope, fromBase64, toBase64 } from './envelope';
+
+const SEALED_VERSION = 'hks1';
+const HKDF_INFO = new TextEncoder().encode('hushkey-sealed-box-v1');
+const ECDH_PARAMS: EcKeyImportParams = { name: 'ECDH', namedCurve: 'P-256' };
+
+// Raw public key bytes and the PKCS#8 private key of a new sharing keypair
+export async function generateSharingKeypair(): Promise<{ publicKey: Uint8Array; privateKey: Uint8Array }> {
+  const keypair = await crypto.subtle.generateKey(ECDH_PARAMS, true, ['deriveBits']);
+
+  return {
+    publicKey: new Uint8Array(await crypto.subtle.exportKey('raw', keypair.publicKey)),
+    privateKey: new Uint8Array(await crypto.subtle.exportKey('pkcs8', keypair.privateKey)),
+  };
+}
+
+// Import a PKCS#8 private key as a non-extractable handle
+export async function importPrivateKey(pkcs8: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey('pkcs8', pkcs8 as BufferSource, ECDH_PARAMS, false, ['deriveBits']);
+}
+
+// Encrypt to a raw P-256 public key. aad binds the box to the record it is stored in.
+export async function sealToPublicKey(data: string, recipientPublicKey: Uint8Array, aad: string): Promise<string> {
+  const recipientKey = await crypto.subtle.importKey('raw', recipientPublicKey as BufferSource, ECDH_PARAMS, false, []);
+  const ephemeral = await crypto.subtle.generateKey(ECDH_PARAMS, false, ['deriveBits']);
+  const ephemeralPublicKey = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey));
+
+  const key = await deriveBoxKey(ephemeral.privateKey, recipientKey, ephemeralPublicKey, recipientPublicKey);
+  const envelope = await encryptEnvelope(data, key, { keyId: 'sealed', aad });
+
+  return `${SEALED_VERSION}.${toBase64(ephemeralPublicKey)}.${envelope}`;
+}
+
+// publicKey is the recipient's own public key, which the sender mixed into the key derivation
+export async function openSealedBox(sealed: string, privateKey: CryptoKey, publicKey: Uint8Array, aad: string): Promise<string> {
+  const [version, ephemeralPublicKeyBase64] = sealed.split('.', 2);
+  if (version !== SEALED_VERSION || !ephemeralPublicKeyBase64) throw new Error('Unsupported sealed box format');
+
+  const envelope = sealed.slice(version.length + ephemeralPublicKeyBase64.length + 2);
+  const ephemeralPublicKey = fromBase64(ephemeralPublicKeyBase64);
+  const ephemeralKey = await crypto.subtle.importKey('raw', ephemeralPublicKey, ECDH_PARAMS, false, []);
+
+  const key = await deriveBoxKey(privateKey, ephemeralKey, ephemeralPublicKey, publicKey);
+  return decryptEnvelope(envelope, key, aad);
+}
+
+// ECDH, then HKDF over the shared secret. Both public keys go into the salt, binding
+// the AES key to this box and its recipient.
+async function deriveBoxKey(
+  privateKey: CryptoKey,
+  peerPublicKey: CryptoKey,
+  ephemeralPublicKey: Uint8Array,
+  recipientPublicKey: Uint8Array
+): Promise<CryptoKey> {
+  const sharedSecret = await crypto.subtle.deriveBits({ name: 'ECDH', public: peerPublicKey }, privateKey, 256);
+  const hkdfKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+
+  const salt = new Uint8Array(ephemeralPublicKey.length + recipientPublicKey.length);
+  salt.set(ephemeralPublicKey);
+  salt.set(recipientPublicKey, ephemeralPublicKey.length);
+
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: HKDF_INFO },
+    hkdfKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
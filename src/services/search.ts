@@ -1,4 +1,6 @@
 // Search service for instant filtering and querying of vault data
+// Runs only on decrypted items in memory. Item types and tags are part of the
+// encrypted payload, so there is nothing the server could filter on.
 
 import type { VaultItem, Vault } from '../stores/authStore';
 
@@ -1,35 +1,44 @@
 // Shared Vaults Service
 // Implements secure vault sharing with asymmetric encryption
 // Manages permissions and collaborative vault access
+//
+// Invitations live in vault_invites. The vault key is sealed to the invitee's public
+// key when the invite is created, so only accounts with a sharing keypair can be
+// invited and the invite carries everything needed to join. Accepting it copies the
+// sealed key into shared_vaults on the server (see accept_vault_invite).
+//
+// Members hold read, write or admin access. Read members only view items, write
+// members edit them and admins can also invite. Renaming, deleting and rotating the
+// key of a vault stay with its owner. The same rules are enforced by RLS.
+//
+// Ownership moves to a member by handing over their sealed vault key. The new owner
+// wraps it with their master key on their next unlock (completeOwnershipTransfers).
+//
+// Vault keys are never sealed to a public key that differs from the one the user
+// verified for that contact (see ContactVerificationService).
 
 import EncryptionService from './encryption';
-import DatabaseService from './database';
-import type { User, Vault } from '../stores/authStore';
-
-interface SharedVault {
-  id: string;
-  vaultId: string;
-  ownerId: string;
-  sharedWithUserId: string;
-  permissions: 'read' | 'write' | 'admin';
-  sharedKeyEncrypted: string; // Encrypted vault key for sharing
-  createdAt: Date;
-}
+import DatabaseService, { type SharePermission, type SharedVaultKey, type VaultCollaborator, type VaultInviteRecord } from './database';
+import type { SharingKeys } from './keypair';
+import ContactVerificationService, { type Contact } from './contactVerification';
+import type { User, Vault, VaultAccess } from '../stores/authStore';
 
-interface VaultInvite {
-  id: string;
-  vaultId: string;
-  inviterId: string;
-  inviterName: string;
-  inviteeEmail: string;
-  permissions: 'read' | 'write' | 'admin';
-  token: string; // Secure invite token
-  expiresAt: Date;
-  status: 'pending' | 'accepted' | 'declined' | 'expired';
-  createdAt: Date;
-}
+const INVITE_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+const LEGACY_KEY_ERROR = 'This vault is still being moved to a key of its own. Unlock again and retry once that has finished.';
+
+// Binds a sealed vault key to the share it belongs to
+const sharedKeyAad = (vaultId: string, userId: string) => `shared-vault-key:${vaultId}|user:${userId}`;
 
-interface PendingInvite extends VaultInvite {
+const ACCESS_RANK: Record<VaultAccess, number> = { read: 0, write: 1, admin: 2, owner: 3 };
+
+// Binds the sealed vault name of an invite to its vault and invitee
+const inviteNameAad = (vaultId: string, userId: string) => `vault-invite-name:${vaultId}|user:${userId}`;
+
+export type VaultInvite = VaultInviteRecord;
+
+// A received invite with the vault name opened
+export interface PendingInvite extends VaultInvite {
   vault: {
     id: string;
     name: string;
@@ -46,164 +55,279 @@ class SharedVaultsService {
     return SharedVaultsService.instance;
   }
 
-  // Generate secure sharing key for vault
-  async generateSharingKey(vaultId: string, masterKey: Uint8Array): Promise<string> {
-    // Create a new random key for sharing purposes
-    const sharingKey = EncryptionService.generateRandomKey();
+  // Whether the user's access to a vault includes the required level
+  hasAccess(vault: Vault, required: VaultAccess): boolean {
+    return ACCESS_RANK[vault.access] >= ACCESS_RANK[required];
+  }
 
-    // Encrypt the sharing key with the master key
-    const sharingKeyBase64 = EncryptionService.toBase64(sharingKey);
-    const encryptedSharingKey = await EncryptionService.encrypt(sharingKeyBase64, masterKey);
+  canEdit(vault: Vault): boolean {
+    return this.hasAccess(vault, 'write');
+  }
+
+  canInvite(vault: Vault): boolean {
+    return this.hasAccess(vault, 'admin');
+  }
 
-    return encryptedSharingKey;
+  // Look up the account and public key to share with by email
+  async findContact(email: string): Promise<Contact> {
+    const normalized = email.trim().toLowerCase();
+    const recipient = await DatabaseService.findSharingRecipient(normalized);
+    if (!recipient) {
+      throw new Error('No HushKey account found for this email. Ask them to sign up first.');
+    }
+    return { ...recipient, email: normalized };
   }
 
-  // Create vault sharing invitation
+  // Create vault sharing invitation. The invitee needs an account with a sharing
+  // keypair, the vault key is sealed to it here. Passing the public key the user
+  // reviewed makes sure the invite is sealed to that exact key.
   async createVaultInvite(
-    vaultId: string,
     vault: Vault,
     inviter: User,
     inviteeEmail: string,
-    permissions: 'read' | 'write' | 'admin',
-    masterKey: Uint8Array
+    permissions: SharePermission,
+    masterKey: CryptoKey,
+    sharingKeys: SharingKeys | null,
+    expectedPublicKey?: string
   ): Promise<VaultInvite> {
-    try {
-      const sharingKey = await this.generateSharingKey(vaultId, masterKey);
+    if (!this.canInvite(vault)) {
+      throw new Error('Only the owner and admins can invite to this vault');
+    }
 
-      const invite: VaultInvite = {
-        id: EncryptionService.generateRandomString(),
-        vaultId,
+    const email = inviteeEmail.trim().toLowerCase();
+    if (email === inviter.email.toLowerCase()) {
+      throw new Error('You cannot invite yourself');
+    }
+
+    const recipient = await this.findContact(email);
+    if (expectedPublicKey && recipient.publicKey !== expectedPublicKey) {
+      throw new Error(`The security key of ${email} changed while you were reviewing it. Check the safety number again.`);
+    }
+    ContactVerificationService.assertKeyUnchanged(inviter.id, recipient);
+
+    // Admins only see their own share, a duplicate member is rejected when the invite is accepted
+    const members = vault.access === 'owner' ? await DatabaseService.getVaultMembers(vault.id) : [];
+    if (recipient.userId === (vault.owner?.id ?? inviter.id) || members.some(member => member.userId === recipient.userId)) {
+      throw new Error('This user already has access to the vault');
+    }
+
+    const invites = await DatabaseService.getVaultInvites(vault.id);
+    if (invites.some(invite => invite.inviteeId === recipient.userId && invite.status === 'pending' && invite.expiresAt > new Date())) {
+      throw new Error('This user already has a pending invitation');
+    }
+
+    const recipientPublicKey = EncryptionService.fromBase64(recipient.publicKey);
+    const vaultKey = await this.getVaultKeyBytes(vault, inviter, masterKey, sharingKeys);
+
+    try {
+      const invite = await DatabaseService.createVaultInvite({
+        vaultId: vault.id,
         inviterId: inviter.id,
-        inviterName: inviter.email, // Using email as display name
-        inviteeEmail,
+        inviterEmail: inviter.email,
+        inviteeId: recipient.userId,
+        inviteeEmail: email,
         permissions,
-        token: EncryptionService.generateRandomString(32),
-        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
-        status: 'pending',
-        createdAt: new Date(),
-      };
-
-      // Store invite securely (in production, this would be in database)
-      this.storeInvite(invite, sharingKey, vault);
+        sharedKeyEncrypted: await this.encryptVaultKeyForSharing(vaultKey, recipientPublicKey, vault.id, recipient.userId),
+        vaultNameEncrypted: await EncryptionService.seal(vault.name, recipientPublicKey, inviteNameAad(vault.id, recipient.userId)),
+        expiresAt: new Date(Date.now() + INVITE_LIFETIME_MS),
+      });
 
       // Send email invitation (placeholder - would integrate with email service)
-      await this.sendInviteEmail(inviter.email, inviteeEmail, vault, invite);
+      await this.sendInviteEmail(inviter.email, email, invite);
 
       return invite;
-    } catch (error) {
-      console.error('Failed to create vault invite:', error);
-      throw new Error('Failed to create invitation');
+    } finally {
+      EncryptionService.wipe(vaultKey);
     }
   }
 
-  // Accept vault invitation
-  async acceptVaultInvite(token: string, user: User): Promise<Vault | null> {
-    try {
-      const inviteData = this.getStoredInvite(token);
-      if (!inviteData) {
-        throw new Error('Invalid or expired invitation');
-      }
+  // The raw key of a vault for sealing to an invitee: owners unwrap it with their master
+  // key, admins open it from their own share
+  private async getVaultKeyBytes(vault: Vault, user: User, masterKey: CryptoKey, sharingKeys: SharingKeys | null): Promise<Uint8Array> {
+    const state = await DatabaseService.getVaultKeyState(vault.id);
+    if (state.pendingVaultKeyEncrypted) {
+      throw new Error('Wait for the vault key rotation to finish and try again');
+    }
 
-      if (inviteData.invite.inviteeEmail.toLowerCase() !== user.email?.toLowerCase()) {
-        throw new Error('Invitation is not for this user');
+    if (vault.access === 'owner') {
+      if (!state.vaultKeyEncrypted) {
+        throw new Error(LEGACY_KEY_ERROR);
       }
-
-      if (new Date() > new Date(inviteData.invite.expiresAt)) {
-        throw new Error('Invitation has expired');
+      const vaultKey = await DatabaseService.unwrapVaultKeyBytes(vault.id, state.vaultKeyEncrypted, masterKey);
+
+      // A vault key that is a copy of the master key opens its own wrapped copy. Sealing
+      // it would hand over the master key (see DatabaseService.adoptLegacyVaultKey).
+      const isMasterKey = await DatabaseService.unwrapVaultKeyBytes(vault.id, state.vaultKeyEncrypted, vaultKey)
+        .then(bytes => { EncryptionService.wipe(bytes); return true; }, () => false);
+      if (isMasterKey) {
+        EncryptionService.wipe(vaultKey);
+        throw new Error(LEGACY_KEY_ERROR);
       }
+      return vaultKey;
+    }
 
-      if (inviteData.invite.status !== 'pending') {
-        throw new Error('Invitation has already been processed');
-      }
+    if (!sharingKeys) throw new Error('Sharing keys not available');
+    const share = (await DatabaseService.getVaultShares(user.id)).find(s => s.vaultId === vault.id);
+    if (!share?.sharedKeyEncrypted) throw new Error('You no longer have access to this vault');
+
+    return this.decryptSharedVaultKey(share.sharedKeyEncrypted, sharingKeys, vault.id, user.id);
+  }
 
-      // Decrypt the sharing key (would need user's agreement in UI)
-      // For now, we'll simulate vault sharing setup
-      console.log('Vault sharing setup would be completed here');
+  // Accept vault invitation. Returns the id of the vault joined.
+  async acceptVaultInvite(inviteId: string, user: User, sharingKeys: SharingKeys): Promise<string> {
+    const invite = await DatabaseService.getVaultInvite(inviteId);
+    if (!invite || invite.inviteeId !== user.id) {
+      throw new Error('Invalid or expired invitation');
+    }
 
-      // Mark invite as accepted
-      inviteData.invite.status = 'accepted';
-      this.updateStoredInvite(token, inviteData.invite);
+    if (invite.status !== 'pending') {
+      throw new Error('Invitation has already been processed');
+    }
 
-      return inviteData.vault;
-    } catch (error) {
-      console.error('Failed to accept vault invite:', error);
-      return null;
+    if (new Date() > invite.expiresAt) {
+      throw new Error('Invitation has expired');
     }
+
+    // Only join if the sealed key opens, a broken invite would leave us locked out
+    const vaultKey = await this.decryptSharedVaultKey(invite.sharedKeyEncrypted, sharingKeys, invite.vaultId, user.id);
+    EncryptionService.wipe(vaultKey);
+
+    return DatabaseService.acceptVaultInvite(inviteId);
   }
 
   // Decline vault invitation
-  async declineVaultInvite(token: string): Promise<boolean> {
+  async declineVaultInvite(inviteId: string): Promise<boolean> {
     try {
-      const inviteData = this.getStoredInvite(token);
-      if (!inviteData) {
-        return false;
-      }
-
-      inviteData.invite.status = 'declined';
-      this.updateStoredInvite(token, inviteData.invite);
-      return true;
+      return await DatabaseService.updateInviteStatus(inviteId, 'declined');
     } catch (error) {
       console.error('Failed to decline vault invite:', error);
       return false;
     }
   }
 
-  // Get pending invitations for user
-  async getPendingInvites(userEmail: string): Promise<PendingInvite[]> {
+  // Withdraw an invitation that has not been answered yet
+  async cancelVaultInvite(inviteId: string): Promise<boolean> {
     try {
-      const invites: PendingInvite[] = [];
-      const storedInvites = this.getAllStoredInvites();
-
-      for (const [token, data] of storedInvites.entries()) {
-        if (
-          data.invite.inviteeEmail.toLowerCase() === userEmail.toLowerCase() &&
-          data.invite.status === 'pending' &&
-          new Date() <= new Date(data.invite.expiresAt)
-        ) {
-          invites.push({
-            ...data.invite,
-            vault: data.vault,
-          });
-        }
-      }
+      return await DatabaseService.updateInviteStatus(inviteId, 'cancelled');
+    } catch (error) {
+      console.error('Failed to cancel vault invite:', error);
+      return false;
+    }
+  }
 
-      return invites;
+  // Get pending invitations for user
+  async getPendingInvites(user: User, sharingKeys: SharingKeys): Promise<PendingInvite[]> {
+    try {
+      await DatabaseService.expireVaultInvites();
+      const invites = await DatabaseService.getReceivedInvites(user.id);
+
+      return await Promise.all(invites.map(async invite => ({
+        ...invite,
+        vault: {
+          id: invite.vaultId,
+          name: await this.openInviteVaultName(invite, sharingKeys),
+        },
+      })));
     } catch (error) {
       console.error('Failed to get pending invites:', error);
       return [];
     }
   }
 
-  // Get shared vaults for user
-  async getSharedVaults(user: User): Promise<Vault[]> {
+  // Invitations sent for a vault, for its owner
+  async getVaultInvites(vaultId: string): Promise<VaultInvite[]> {
+    await DatabaseService.expireVaultInvites();
+    return DatabaseService.getVaultInvites(vaultId);
+  }
+
+  // Seal a rotated vault key to the invitees of every pending invite, so accepting
+  // one still grants the current key. Invites to a key that changed since the user
+  // verified it are cancelled instead.
+  async resealPendingInvites(vaultId: string, vaultKey: Uint8Array, userId: string): Promise<void> {
+    const invites = (await DatabaseService.getVaultInvites(vaultId)).filter(invite => invite.status === 'pending');
+    if (invites.length === 0) return;
+
+    const publicKeys = await DatabaseService.getPublicKeys(invites.map(invite => invite.inviteeId));
+
+    for (const invite of invites) {
+      const publicKey = publicKeys.get(invite.inviteeId);
+      if (!publicKey || ContactVerificationService.getStatus(userId, { userId: invite.inviteeId, publicKey }) === 'changed') {
+        await DatabaseService.updateInviteStatus(invite.id, 'cancelled');
+        continue;
+      }
+
+      const sharedKeyEncrypted = await this.encryptVaultKeyForSharing(
+        vaultKey,
+        EncryptionService.fromBase64(publicKey),
+        vaultId,
+        invite.inviteeId
+      );
+      await DatabaseService.updateInviteVaultKey(invite.id, sharedKeyEncrypted);
+    }
+  }
+
+  private async openInviteVaultName(invite: VaultInvite, sharingKeys: SharingKeys): Promise<string> {
     try {
-      // In a real implementation, this would query the database
-      // for vaults shared with this user
-      const sharedVaults: Vault[] = [];
-
-      // Placeholder - would return actual shared vaults
-      // const sharedVaultRecords = await this.database.getSharedVaults(user.id);
-      // for (const record of sharedVaultRecords) {
-      //   const vault = await this.decryptSharedVault(record, user);
-      //   sharedVaults.push(vault);
-      // }
-
-      return sharedVaults;
+      return await EncryptionService.openSealed(
+        invite.vaultNameEncrypted,
+        sharingKeys.privateKey,
+        sharingKeys.publicKey,
+        inviteNameAad(invite.vaultId, invite.inviteeId)
+      );
+    } catch (error) {
+      console.error(`Failed to decrypt name of invite ${invite.id}:`, error);
+      return 'Unknown vault';
+    }
+  }
+
+  // Get shared vaults for user, with the vault key of each opened from its share.
+  // failedCount is the number of shares whose key could not be opened.
+  async getSharedVaults(user: User, sharingKeys: SharingKeys): Promise<{ vaults: SharedVaultKey[]; failedCount: number }> {
+    const vaults: SharedVaultKey[] = [];
+    let failedCount = 0;
+
+    try {
+      const shares = await DatabaseService.getVaultShares(user.id);
+
+      for (const share of shares) {
+        if (!share.sharedKeyEncrypted) {
+          console.error(`Shared vault ${share.vaultId} has no vault key for this user`);
+          failedCount++;
+          continue;
+        }
+
+        try {
+          const keyBytes = await this.decryptSharedVaultKey(share.sharedKeyEncrypted, sharingKeys, share.vaultId, user.id);
+          try {
+            vaults.push({
+              vaultId: share.vaultId,
+              vaultKey: await EncryptionService.importKey(keyBytes),
+              sharedKeyEncrypted: share.sharedKeyEncrypted,
+              owner: share.owner,
+              permissions: share.permissions,
+            });
+          } finally {
+            EncryptionService.wipe(keyBytes);
+          }
+        } catch {
+          failedCount++;
+        }
+      }
     } catch (error) {
       console.error('Failed to get shared vaults:', error);
-      return [];
     }
+
+    return { vaults, failedCount };
   }
 
   // Update permissions for shared user
   async updateSharedVaultPermissions(
     vaultId: string,
     userId: string,
-    newPermissions: 'read' | 'write' | 'admin'
+    newPermissions: SharePermission
   ): Promise<boolean> {
     try {
-      // Placeholder - would update shared vault permissions in database
-      console.log(`Updating permissions for vault ${vaultId}, user ${userId} to ${newPermissions}`);
+      await DatabaseService.updateSharePermissions(vaultId, userId, newPermissions);
       return true;
     } catch (error) {
       console.error('Failed to update permissions:', error);
@@ -211,11 +335,11 @@ class SharedVaultsService {
     }
   }
 
-  // Remove user from shared vault
+  // Remove user from shared vault. They keep whatever they already decrypted, rotate
+  // the vault key to lock them out of future changes.
   async revokeVaultAccess(vaultId: string, userId: string): Promise<boolean> {
     try {
-      // Placeholder - would remove shared vault access
-      console.log(`Revoking access to vault ${vaultId} for user ${userId}`);
+      await DatabaseService.deleteShare(vaultId, userId);
       return true;
     } catch (error) {
       console.error('Failed to revoke vault access:', error);
@@ -223,52 +347,90 @@ class SharedVaultsService {
     }
   }
 
-  // Get vault collaborators
-  async getVaultCollaborators(vaultId: string): Promise<Array<{
-    userId: string;
-    email: string;
-    permissions: string;
-    joinedAt: Date;
-  }>> {
+  // Get vault collaborators, for the owner and admins
+  async getVaultCollaborators(vaultId: string): Promise<VaultCollaborator[]> {
     try {
-      // Placeholder - would return actual collaborators
-      return [];
+      return await DatabaseService.getVaultCollaborators(vaultId);
     } catch (error) {
       console.error('Failed to get vault collaborators:', error);
       return [];
     }
   }
 
-  // Asymmetric encryption helpers for secure sharing
-  async generateVaultSharingKeys(): Promise<{ publicKey: string; privateKey: string }> {
+  // Send an invitation again with a new expiry. The old one is cancelled, a new one
+  // is sealed with the current vault key.
+  async resendVaultInvite(
+    invite: VaultInvite,
+    vault: Vault,
+    inviter: User,
+    masterKey: CryptoKey,
+    sharingKeys: SharingKeys | null
+  ): Promise<VaultInvite> {
+    // Fails before anything changes if the invitee's key no longer matches the verified one
+    ContactVerificationService.assertKeyUnchanged(inviter.id, await this.findContact(invite.inviteeEmail));
+
+    if (invite.status === 'pending') {
+      await DatabaseService.updateInviteStatus(invite.id, 'cancelled');
+    }
+    return this.createVaultInvite(vault, inviter, invite.inviteeEmail, invite.permissions, masterKey, sharingKeys);
+  }
+
+  // Hand the vault to one of its members. The current owner stays on as an admin.
+  async transferOwnership(vault: Vault, newOwnerId: string, user: User, masterKey: CryptoKey, sharingKeys: SharingKeys | null): Promise<void> {
+    if (vault.access !== 'owner') {
+      throw new Error('Only the owner can transfer this vault');
+    }
+    if (!sharingKeys) throw new Error('Sharing keys not available');
+
+    const vaultKey = await this.getVaultKeyBytes(vault, user, masterKey, sharingKeys);
     try {
-      const keypair = await EncryptionService.generateKeypair();
-      const publicKey = EncryptionService.toBase64(keypair.publicKey);
-      const privateKey = EncryptionService.toBase64(keypair.privateKey);
-      return { publicKey, privateKey };
-    } catch (error) {
-      console.error('Failed to generate sharing keys:', error);
-      throw new Error('Failed to generate encryption keys');
+      const previousOwnerKey = await this.encryptVaultKeyForSharing(vaultKey, sharingKeys.publicKey, vault.id, user.id);
+      await DatabaseService.transferVaultOwnership(vault.id, newOwnerId, previousOwnerKey);
+    } finally {
+      EncryptionService.wipe(vaultKey);
     }
   }
 
-  // Encrypt vault key for sharing
-  async encryptVaultKeyForSharing(vaultKey: Uint8Array, recipientPublicKey: Uint8Array): Promise<string> {
+  // Take over vaults handed to the user: open the sealed vault key and wrap it with the
+  // master key like any other owned vault
+  async completeOwnershipTransfers(user: User, masterKey: CryptoKey, sharingKeys: SharingKeys): Promise<void> {
+    const transfers = await DatabaseService.getPendingOwnerKeys(user.id);
+
+    for (const { vaultId, ownerKeySealed } of transfers) {
+      try {
+        const vaultKey = await this.decryptSharedVaultKey(ownerKeySealed, sharingKeys, vaultId, user.id);
+        try {
+          const vaultKeyEncrypted = await DatabaseService.wrapVaultKey(vaultId, vaultKey, masterKey);
+          await DatabaseService.completeOwnershipTransfer(vaultId, ownerKeySealed, vaultKeyEncrypted);
+        } finally {
+          EncryptionService.wipe(vaultKey);
+        }
+      } catch (error) {
+        console.error(`Failed to take over vault ${vaultId}:`, error);
+      }
+    }
+  }
+
+  // Seal a raw vault key to a recipient's public key (see KeypairService)
+  async encryptVaultKeyForSharing(vaultKey: Uint8Array, recipientPublicKey: Uint8Array, vaultId: string, recipientId: string): Promise<string> {
     try {
       const vaultKeyBase64 = EncryptionService.toBase64(vaultKey);
-      // In a real implementation, would use recipient's public key for encryption
-      // For now, using symmetric encryption as placeholder
-      return await EncryptionService.encrypt(vaultKeyBase64, recipientPublicKey);
+      return await EncryptionService.seal(vaultKeyBase64, recipientPublicKey, sharedKeyAad(vaultId, recipientId));
     } catch (error) {
       console.error('Failed to encrypt vault key:', error);
       throw new Error('Failed to encrypt vault key for sharing');
     }
   }
 
-  // Decrypt shared vault key
-  async decryptSharedVaultKey(encryptedKey: string, userPrivateKey: Uint8Array): Promise<Uint8Array> {
+  // Open a vault key sealed to us. Returns the raw key; callers wipe it when done.
+  async decryptSharedVaultKey(encryptedKey: string, sharingKeys: SharingKeys, vaultId: string, userId: string): Promise<Uint8Array> {
     try {
-      const decryptedKeyBase64 = await EncryptionService.decrypt(encryptedKey, userPrivateKey);
+      const decryptedKeyBase64 = await EncryptionService.openSealed(
+        encryptedKey,
+        sharingKeys.privateKey,
+        sharingKeys.publicKey,
+        sharedKeyAad(vaultId, userId)
+      );
       return EncryptionService.fromBase64(decryptedKeyBase64);
     } catch (error) {
       console.error('Failed to decrypt shared vault key:', error);
@@ -277,20 +439,19 @@ class SharedVaultsService {
   }
 
   // Email sending (placeholder - would integrate with service like SendGrid)
-  private async sendInviteEmail(fromEmail: string, toEmail: string, vault: Vault, invite: VaultInvite): Promise<void> {
-    const inviteUrl = `${window.location.origin}/accept-invite/${invite.token}`;
+  private async sendInviteEmail(fromEmail: string, toEmail: string, invite: VaultInvite): Promise<void> {
+    const inviteUrl = `${window.location.origin}/?invite=${invite.id}`;
 
     const emailData = {
       from: fromEmail,
       to: toEmail,
-      subject: `HushKey: You're invited to join "${vault.name}"`,
+      subject: `HushKey: You're invited to a shared vault`,
       html: `
         <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; max-width: 600px; margin: 0 auto;">
           <h2>You've been invited to a shared vault!</h2>
-          <p><strong>${fromEmail}</strong> has invited you to join the vault "<strong>${vault.name}</strong>".</p>
+          <p><strong>${fromEmail}</strong> has invited you to join one of their vaults. Its name is shown once you sign in.</p>
 
           <div style="background: #f8f9fa; padding: 20px; border-radius: 8px; margin: 20px 0;">
-            <h3>Vault: ${vault.name}</h3>
             <p>Permissions: ${invite.permissions}</p>
             <p>This invitation expires in 7 days.</p>
           </div>
@@ -309,76 +470,13 @@ class SharedVaultsService {
       `,
     };
 
-    // Placeholder - in production, this would send the actual email
-    console.log('Email invitation would be sent:', emailData);
+    // Placeholder - in production, this would send the actual email. Vault names stay
+    // encrypted, and the invite link is not logged.
+    console.log('Email invitation would be sent:', { from: emailData.from, to: emailData.to, subject: emailData.subject });
 
     // Simulate sending
     await new Promise(resolve => setTimeout(resolve, 1000));
   }
-
-  // Local storage helpers (in production, these would be database operations)
-
-  private storeInvite(invite: VaultInvite, sharingKey: string, vault: Vault): void {
-    const inviteData = {
-      invite,
-      sharingKey,
-      vault: {
-        id: vault.id,
-        name: vault.name,
-      },
-      storedAt: new Date().toISOString(),
-    };
-
-    localStorage.setItem(`hushkey-invite-${invite.token}`, JSON.stringify(inviteData));
-  }
-
-  private getStoredInvite(token: string): any {
-    const stored = localStorage.getItem(`hushkey-invite-${token}`);
-    return stored ? JSON.parse(stored) : null;
-  }
-
-  private updateStoredInvite(token: string, invite: VaultInvite): void {
-    const data = this.getStoredInvite(token);
-    if (data) {
-      data.invite = invite;
-      localStorage.setItem(`hushkey-invite-${token}`, JSON.stringify(data));
-    }
-  }
-
-  private getAllStoredInvites(): Map<string, any> {
-    const invites = new Map();
-    const keys = Object.keys(localStorage);
-
-    for (const key of keys) {
-      if (key.startsWith('hushkey-invite-')) {
-        const token = key.replace('hushkey-invite-', '');
-        const data = this.getStoredInvite(token);
-        if (data) {
-          invites.set(token, data);
-        }
-      }
-    }
-
-    return invites;
-  }
-
-  // Activity logging for shared vaults
-  async logSharedVaultActivity(vaultId: string, userId: string, action: string, details?: string): Promise<void> {
-    try {
-      const activity = {
-        vaultId,
-        userId,
-        action,
-        details,
-        timestamp: new Date().toISOString(),
-      };
-
-      // Placeholder - would store in activity logs table
-      console.log('Shared vault activity logged:', activity);
-    } catch (error) {
-      console.error('Failed to log activity:', error);
-    }
-  }
 }
 
 export default SharedVaultsService.getInstance();
@@ -0,0 +1,338 @@
+// Offline sync
+// Item creates, updates and deletes are written to the local cache and queued in
+// IndexedDB first, then replayed against DatabaseService in the order they were made.
+// Queued payloads are encrypted with the vault key and bound to their mutation, like
+// everything else in the cache. A failed operation is retried with exponential
+// backoff; later operations on the same item wait for it so they reach the server in
+// order. Until the queue is empty, loaded vaults have the queued changes applied on
+// top of the server copy (see applyPending).
+//
+// Edits carry the version of the item they were made against, so an item changed on
+// another device in the meantime is merged rather than overwritten. An edit that
+// clashes with the other change waits in 'conflict' until the user resolves it.
+
+import EncryptionService from './encryption';
+import DatabaseService, { RecordContext } from './database';
+import type { ItemConflict, ItemFields } from './itemMerge';
+import IndexedDBService, { type MutationStatus, type MutationType, type QueuedMutation } from './indexedDB';
+import type { Vault, VaultItem } from '../stores/authStore';
+
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+// A queued operation as shown in the UI, without its payload
+export interface PendingMutation {
+  id: string;
+  type: MutationType;
+  vaultId: string;
+  itemId: string;
+  status: MutationStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: Date;
+  createdAt: Date;
+}
+
+type ItemData = Omit<VaultItem, 'id' | 'vaultId' | 'createdAt' | 'updatedAt'>;
+
+// Decrypted payloads: the full item for creates, the changed fields and the version
+// they were made against for updates and the item name for deletes, for the activity log
+interface MutationPayload {
+  item?: ItemData;
+  updates?: Partial<VaultItem>;
+  base?: ItemFields;
+  name?: string;
+}
+
+// onApplied is called for each operation that reached the server, onConflict for each
+// edit that clashed with a change made elsewhere, onChange whenever the status of one
+// changes
+export interface ReplayCallbacks {
+  onApplied?: (mutation: QueuedMutation, payload: MutationPayload) => void;
+  onConflict?: (mutation: QueuedMutation, conflict: ItemConflict) => void;
+  onChange?: () => void;
+}
+
+export interface ConnectivityCallbacks {
+  onOnline: () => void;
+  onOffline: () => void;
+}
+
+class SyncEngineService {
+  private static instance: SyncEngineService;
+  private replaying: Promise<number> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastQueuedAt = 0;
+
+  static getInstance(): SyncEngineService {
+    if (!SyncEngineService.instance) {
+      SyncEngineService.instance = new SyncEngineService();
+    }
+    return SyncEngineService.instance;
+  }
+
+  isOnline(): boolean {
+    return navigator.onLine;
+  }
+
+  // Report connectivity changes. Returns a function that stops listening.
+  start(callbacks: ConnectivityCallbacks): () => void {
+    window.addEventListener('online', callbacks.onOnline);
+    window.addEventListener('offline', callbacks.onOffline);
+
+    return () => {
+      window.removeEventListener('online', callbacks.onOnline);
+      window.removeEventListener('offline', callbacks.onOffline);
+      this.cancelRetry();
+    };
+  }
+
+  async enqueueCreate(userId: string, item: VaultItem, vaultKey: CryptoKey): Promise<void> {
+    await this.enqueue(userId, 'create', item.vaultId, item.id, { item: toItemData(item) }, vaultKey);
+    await this.cacheItem(item, vaultKey);
+  }
+
+  // item is the local copy with the updates already applied, base the one before
+  async enqueueUpdate(userId: string, item: VaultItem, updates: Partial<VaultItem>, base: VaultItem, vaultKey: CryptoKey): Promise<void> {
+    await this.enqueue(userId, 'update', item.vaultId, item.id, { updates, base: toItemData(base) }, vaultKey);
+    await this.cacheItem(item, vaultKey);
+  }
+
+  async enqueueDelete(userId: string, item: VaultItem, vaultKey: CryptoKey): Promise<void> {
+    await this.enqueue(userId, 'delete', item.vaultId, item.id, { name: item.name }, vaultKey);
+    await IndexedDBService.deleteVaultItem(item.id);
+  }
+
+  async getPending(userId: string): Promise<PendingMutation[]> {
+    const mutations = await IndexedDBService.getPendingSync(userId);
+    return mutations.map(mutation => ({
+      id: mutation.id,
+      type: mutation.type,
+      vaultId: mutation.vaultId,
+      itemId: mutation.itemId,
+      status: mutation.status,
+      attempts: mutation.attempts,
+      lastError: mutation.lastError,
+      nextAttemptAt: new Date(mutation.nextAttemptAt),
+      createdAt: new Date(mutation.createdAt),
+    }));
+  }
+
+  // Drop a queued operation. The local copy may hold its change, so the next load
+  // fetches the vault in full to show the server copy again.
+  async discard(mutationId: string): Promise<void> {
+    const mutation = await IndexedDBService.getMutation(mutationId);
+    await IndexedDBService.deleteMutation(mutationId);
+    if (mutation) await IndexedDBService.clearSyncCursor(mutation.vaultId);
+  }
+
+  // Replay queued operations that are due. Edits in conflict are tried again each time,
+  // to pick up a resolution made elsewhere. Returns the number applied. Concurrent calls
+  // share one run.
+  replay(userId: string, vaultKeys: Record<string, CryptoKey>, callbacks: ReplayCallbacks = {}, force = false): Promise<number> {
+    if (!this.replaying) {
+      this.replaying = this.replayQueue(userId, vaultKeys, callbacks, force)
+        .finally(() => { this.replaying = null; });
+    }
+    return this.replaying;
+  }
+
+  // Call retry once the earliest failed operation is due again. Conflicts wait for the user.
+  scheduleRetry(pending: PendingMutation[], retry: () => void): void {
+    this.cancelRetry();
+
+    const next = Math.min(...pending
+      .filter(mutation => mutation.status !== 'conflict')
+      .map(mutation => mutation.nextAttemptAt.getTime()));
+    if (!Number.isFinite(next)) return;
+
+    this.retryTimer = setTimeout(retry, Math.max(0, next - Date.now()));
+  }
+
+  cancelRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  // Apply queued operations to freshly loaded vaults, so changes that have not reached
+  // the server yet do not disappear from the UI
+  async applyPending(userId: string, vaults: Vault[], vaultKeys: Record<string, CryptoKey>): Promise<Vault[]> {
+    const mutations = await IndexedDBService.getPendingSync(userId);
+    if (mutations.length === 0) return vaults;
+
+    const byId = new Map(vaults.map(vault => [vault.id, { ...vault, items: [...vault.items] }]));
+
+    for (const mutation of mutations) {
+      const vault = byId.get(mutation.vaultId);
+      const vaultKey = vaultKeys[mutation.vaultId];
+      if (!vault || !vaultKey) continue;
+
+      try {
+        const payload = await this.openPayload(mutation, vaultKey);
+        const index = vault.items.findIndex(item => item.id === mutation.itemId);
+
+        if (mutation.type === 'create' && payload.item) {
+          const item: VaultItem = {
+            ...payload.item,
+            id: mutation.itemId,
+            vaultId: mutation.vaultId,
+            createdAt: new Date(mutation.createdAt),
+            updatedAt: new Date(mutation.createdAt),
+          };
+          if (index === -1) vault.items.push(item);
+          else vault.items[index] = item;
+        } else if (mutation.type === 'update' && payload.updates && index !== -1) {
+          vault.items[index] = { ...vault.items[index], ...payload.updates, updatedAt: new Date(mutation.createdAt) };
+        } else if (mutation.type === 'delete' && index !== -1) {
+          vault.items.splice(index, 1);
+        }
+      } catch (error) {
+        console.error(`Error applying queued change ${mutation.id}:`, error);
+      }
+    }
+
+    return vaults.map(vault => byId.get(vault.id)!);
+  }
+
+  private async enqueue(
+    userId: string,
+    type: MutationType,
+    vaultId: string,
+    itemId: string,
+    payload: MutationPayload,
+    vaultKey: CryptoKey
+  ): Promise<void> {
+    const id = EncryptionService.generateUUID();
+    // Strictly increasing, the queue is replayed in this order
+    this.lastQueuedAt = Math.max(Date.now(), this.lastQueuedAt + 1);
+    const now = new Date(this.lastQueuedAt).toISOString();
+
+    await IndexedDBService.addMutation({
+      id,
+      userId,
+      type,
+      vaultId,
+      itemId,
+      payloadEncrypted: await EncryptionService.encrypt(JSON.stringify(payload), vaultKey, RecordContext.mutation(id, vaultId)),
+      status: 'pending',
+      attempts: 0,
+      lastError: null,
+      nextAttemptAt: now,
+      createdAt: now,
+    });
+  }
+
+  // Keep the local cache in step with the change, encrypted like the server copy
+  private async cacheItem(item: VaultItem, vaultKey: CryptoKey): Promise<void> {
+    await IndexedDBService.saveVaultItem({
+      id: item.id,
+      vaultId: item.vaultId,
+      dataEncrypted: await EncryptionService.encrypt(JSON.stringify(toItemData(item)), vaultKey, RecordContext.item(item.id, item.vaultId)),
+      createdAt: item.createdAt.toISOString(),
+      updatedAt: item.updatedAt.toISOString(),
+    });
+  }
+
+  private async openPayload(mutation: QueuedMutation, vaultKey: CryptoKey): Promise<MutationPayload> {
+    return JSON.parse(await EncryptionService.decrypt(mutation.payloadEncrypted, vaultKey, RecordContext.mutation(mutation.id, mutation.vaultId)));
+  }
+
+  private async replayQueue(
+    userId: string,
+    vaultKeys: Record<string, CryptoKey>,
+    { onApplied, onConflict, onChange }: ReplayCallbacks,
+    force: boolean
+  ): Promise<number> {
+    if (!this.isOnline()) return 0;
+
+    const mutations = await IndexedDBService.getPendingSync(userId);
+    const blockedItems = new Set<string>();
+    let applied = 0;
+
+    for (const mutation of mutations) {
+      // Operations on an item go out in order, after any earlier one still waiting
+      if (blockedItems.has(mutation.itemId)) continue;
+      if (!force && new Date(mutation.nextAttemptAt).getTime() > Date.now()) {
+        blockedItems.add(mutation.itemId);
+        continue;
+      }
+
+      await IndexedDBService.updateMutation(mutation.id, { status: 'syncing' });
+      onChange?.();
+
+      try {
+        const vaultKey = vaultKeys[mutation.vaultId];
+        if (!vaultKey) throw new Error('Vault not available');
+
+        const payload = await this.openPayload(mutation, vaultKey);
+        const conflict = await this.apply(mutation, payload, vaultKey);
+
+        if (conflict) {
+          blockedItems.add(mutation.itemId);
+          await IndexedDBService.updateMutation(mutation.id, {
+            status: 'conflict',
+            attempts: mutation.attempts + 1,
+            lastError: 'Changed on another device',
+          });
+          onConflict?.(mutation, conflict);
+          onChange?.();
+          continue;
+        }
+
+        await IndexedDBService.deleteMutation(mutation.id);
+
+        applied++;
+        onApplied?.(mutation, payload);
+      } catch (error) {
+        console.error(`Error syncing queued change ${mutation.id}:`, error);
+        blockedItems.add(mutation.itemId);
+
+        const attempts = mutation.attempts + 1;
+        await IndexedDBService.updateMutation(mutation.id, {
+          status: 'failed',
+          attempts,
+          lastError: (error as { message?: string })?.message ?? String(error),
+          nextAttemptAt: new Date(Date.now() + Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS)).toISOString(),
+        });
+      }
+      onChange?.();
+
+      if (!this.isOnline()) break;
+    }
+
+    const remaining = await IndexedDBService.getPendingSync(userId);
+    await IndexedDBService.updateLastSync(new Date().toISOString(), remaining.map(mutation => mutation.id));
+
+    return applied;
+  }
+
+  // Returns the conflict when an edit clashed with a change made elsewhere
+  private async apply(mutation: QueuedMutation, payload: MutationPayload, vaultKey: CryptoKey): Promise<ItemConflict | null> {
+    switch (mutation.type) {
+      case 'create':
+        try {
+          await DatabaseService.createVaultItem(mutation.vaultId, payload.item!, vaultKey, mutation.itemId);
+        } catch (error) {
+          // The insert went through on an earlier attempt whose response was lost
+          if ((error as { code?: string })?.code !== '23505') throw error;
+        }
+        break;
+      case 'update':
+        return DatabaseService.updateVaultItem(mutation.itemId, payload.updates!, vaultKey, payload.base);
+      case 'delete':
+        await DatabaseService.deleteVaultItem(mutation.itemId, mutation.vaultId, vaultKey);
+        break;
+    }
+    return null;
+  }
+}
+
+// The encrypted fields of an item, as in the server payload
+function toItemData(item: VaultItem): ItemData {
+  const { type, name, url, username, password, notes, tags, revision } = item;
+  return { type, name, url, username, password, notes, tags, revision };
+}
+
+export default SyncEngineService.getInstance();
@@ -0,0 +1,161 @@
+// Vault key rotation
+// Replaces a vault's key with a fresh random one and re-encrypts everything under it:
+// the vault name, every item, all item history and the activity log. The new key is
+// stored wrapped next to the current one before anything is touched, so an interrupted
+// rotation is picked up again with the same key. Records that already decrypt with the
+// new key are skipped, which makes every pass safe to repeat. The vault only switches
+// keys once a pass finds nothing left to re-encrypt and every member, and every pending
+// invite, has the new key. Members whose public key changed since the rotating user
+// verified it do not get the new key, the rotation reports them so they can be invited
+// again.
+
+import EncryptionService from './encryption';
+import DatabaseService, { RecordContext, type CiphertextRecord, type LoadProgressCallback, type VaultCollaborator } from './database';
+import SharedVaultsService from './sharedVaults';
+import ContactVerificationService from './contactVerification';
+
+const BATCH_SIZE = 50;
+const MAX_PASSES = 3; // Further passes pick up records written while the previous one ran
+
+export interface KeyRotationResult {
+  vaultKey: CryptoKey;
+  lockedOut: VaultCollaborator[]; // Members who could not be given the new key
+}
+
+class VaultKeyRotationService {
+  private static instance: VaultKeyRotationService;
+
+  static getInstance(): VaultKeyRotationService {
+    if (!VaultKeyRotationService.instance) {
+      VaultKeyRotationService.instance = new VaultKeyRotationService();
+    }
+    return VaultKeyRotationService.instance;
+  }
+
+  // Rotate the key of a vault, or finish a rotation that was interrupted. Returns the
+  // new vault key and the members who lost access.
+  async rotateVaultKey(vaultId: string, userId: string, masterKey: CryptoKey, onProgress?: LoadProgressCallback): Promise<KeyRotationResult> {
+    const state = await DatabaseService.getVaultKeyState(vaultId);
+
+    // Vaults not yet adopted (see DatabaseService.adoptLegacyVaultKey) use the master key
+    const currentKey = state.vaultKeyEncrypted
+      ? await DatabaseService.unwrapVaultKey(vaultId, state.vaultKeyEncrypted, masterKey)
+      : masterKey;
+
+    const pendingKeyEncrypted = state.pendingVaultKeyEncrypted ?? await this.createPendingKey(vaultId, masterKey);
+    const newKeyBytes = await DatabaseService.unwrapVaultKeyBytes(vaultId, pendingKeyEncrypted, masterKey);
+
+    try {
+      const newKey = await EncryptionService.importKey(newKeyBytes);
+
+      let remaining = 0;
+      for (let pass = 0; pass < MAX_PASSES; pass++) {
+        const records = await DatabaseService.getVaultCiphertexts(vaultId);
+        remaining = await this.reencryptRecords(records, currentKey, newKey, state.keyVersion + 1, onProgress);
+        if (remaining === 0) break;
+      }
+      if (remaining > 0) throw new Error('The vault kept changing during key rotation, try again later');
+
+      const lockedOut = await this.rewrapForMembers(vaultId, newKeyBytes, userId);
+      await SharedVaultsService.resealPendingInvites(vaultId, newKeyBytes, userId);
+      await DatabaseService.completeVaultKeyRotation(vaultId, pendingKeyEncrypted, state.keyVersion + 1);
+
+      return { vaultKey: newKey, lockedOut };
+    } finally {
+      EncryptionService.wipe(newKeyBytes);
+    }
+  }
+
+  private async createPendingKey(vaultId: string, masterKey: CryptoKey): Promise<string> {
+    const keyBytes = EncryptionService.generateRandomKey();
+    try {
+      return await DatabaseService.savePendingVaultKey(vaultId, await DatabaseService.wrapVaultKey(vaultId, keyBytes, masterKey));
+    } finally {
+      EncryptionService.wipe(keyBytes);
+    }
+  }
+
+  // Re-encrypt the records still under the current key. Returns how many were
+  // re-encrypted or changed underneath, i.e. whether another pass is needed.
+  private async reencryptRecords(
+    records: CiphertextRecord[],
+    currentKey: CryptoKey,
+    newKey: CryptoKey,
+    newKeyVersion: number,
+    onProgress?: LoadProgressCallback
+  ): Promise<number> {
+    let changed = 0;
+    let done = 0;
+    onProgress?.(0, records.length);
+
+    for (let i = 0; i < records.length; i += BATCH_SIZE) {
+      const batch = records.slice(i, i + BATCH_SIZE);
+
+      const results = await Promise.all(batch.map(record => this.reencryptRecord(record, currentKey, newKey, newKeyVersion)));
+      changed += results.filter(Boolean).length;
+
+      done += batch.length;
+      onProgress?.(done, records.length);
+    }
+
+    return changed;
+  }
+
+  private async reencryptRecord(record: CiphertextRecord, currentKey: CryptoKey, newKey: CryptoKey, newKeyVersion: number): Promise<boolean> {
+    const context = RecordContext.forRecord(record);
+
+    try {
+      await EncryptionService.decrypt(record.ciphertext, newKey, context);
+      return false; // Already re-encrypted
+    } catch {
+      // Still under the current key
+    }
+
+    let plaintext: string;
+    try {
+      plaintext = await EncryptionService.decrypt(record.ciphertext, currentKey, context, DatabaseService.acceptsLegacyFormat(record.vaultId));
+    } catch (error) {
+      // Unreadable with either key already, there is nothing to carry over
+      console.error(`Error decrypting ${record.table} record ${record.id}:`, error);
+      return false;
+    }
+
+    await DatabaseService.replaceCiphertext(record, await EncryptionService.encrypt(plaintext, newKey, context), newKeyVersion);
+    return true;
+  }
+
+  // Wrap the new key for everyone the vault is shared with. Members without a public
+  // key, or with one that changed since it was verified, cannot receive it and lose
+  // access until they are invited again. Returns those members.
+  private async rewrapForMembers(vaultId: string, newKeyBytes: Uint8Array, userId: string): Promise<VaultCollaborator[]> {
+    const members = await DatabaseService.getVaultCollaborators(vaultId);
+    const lockedOut: VaultCollaborator[] = [];
+
+    for (const member of members) {
+      if (!member.publicKey) {
+        console.error(`Vault member ${member.userId} has no public key, removing their vault key`);
+        await DatabaseService.updateMemberVaultKey(member.shareId, null);
+        lockedOut.push(member);
+        continue;
+      }
+      if (ContactVerificationService.getStatus(userId, { userId: member.userId, publicKey: member.publicKey }) === 'changed') {
+        console.error(`The public key of vault member ${member.userId} changed since it was verified, removing their vault key`);
+        await DatabaseService.updateMemberVaultKey(member.shareId, null);
+        lockedOut.push(member);
+        continue;
+      }
+
+      const sharedKeyEncrypted = await SharedVaultsService.encryptVaultKeyForSharing(
+        newKeyBytes,
+        EncryptionService.fromBase64(member.publicKey),
+        vaultId,
+        member.userId
+      );
+      await DatabaseService.updateMemberVaultKey(member.shareId, sharedKeyEncrypted);
+    }
+
+    return lockedOut;
+  }
+}
+
+export default VaultKeyRotationService.getInstance();
@@ -0,0 +1,103 @@
+// Vault manifest
+// Every vault keeps a manifest of its item ids and their revision counters, encrypted
+// with the vault key so the server can neither read nor forge it. Each item carries
+// its revision inside its own encrypted payload. On load the two are compared: an item
+// listed in the manifest but not returned was deleted behind our back, and an item
+// whose revision is lower than the manifest's was rolled back or replayed from an old
+// ciphertext. Deleted items stay in the manifest as tombstones, so an item returned
+// that the manifest does not list, or lists as deleted, was slipped in or brought back.
+// The manifest's own sequence number is remembered on this device to catch the
+// manifest itself being rolled back.
+
+import type { VaultItem } from '../stores/authStore';
+
+export interface VaultManifest {
+  seq: number; // Incremented on every change
+  items: Record<string, number>; // Item id to revision
+  deleted?: Record<string, number>; // Deleted item id to its last revision, absent in older manifests
+}
+
+export interface ManifestCheck {
+  missing: string[]; // In the manifest but not on the server
+  unknown: string[]; // On the server but not in the manifest, or deleted according to it
+  rolledBack: string[]; // Older revision than the manifest lists
+  manifestRolledBack: boolean; // Older manifest than this device has seen
+}
+
+class VaultManifestService {
+  private static instance: VaultManifestService;
+
+  static getInstance(): VaultManifestService {
+    if (!VaultManifestService.instance) {
+      VaultManifestService.instance = new VaultManifestService();
+    }
+    return VaultManifestService.instance;
+  }
+
+  create(items: VaultItem[] = []): VaultManifest {
+    return {
+      seq: 1,
+      items: Object.fromEntries(items.map(item => [item.id, item.revision ?? 0])),
+    };
+  }
+
+  parse(json: string): VaultManifest {
+    const manifest = JSON.parse(json);
+    if (
+      typeof manifest.seq !== 'number'
+      || typeof manifest.items !== 'object' || manifest.items === null
+      || (manifest.deleted !== undefined && (typeof manifest.deleted !== 'object' || manifest.deleted === null))
+    ) {
+      throw new Error('Invalid vault manifest');
+    }
+    return manifest;
+  }
+
+  // Compare the loaded items against the manifest. knownSeq is the highest manifest
+  // sequence number this device has seen for the vault.
+  verify(manifest: VaultManifest, items: VaultItem[], knownSeq = 0): ManifestCheck {
+    const revisions = new Map(items.map(item => [item.id, item.revision ?? 0]));
+
+    return {
+      missing: Object.keys(manifest.items).filter(id => !revisions.has(id)),
+      unknown: items.filter(item => !(item.id in manifest.items)).map(item => item.id),
+      rolledBack: Object.entries(manifest.items)
+        .filter(([id, revision]) => revisions.has(id) && revisions.get(id)! < revision)
+        .map(([id]) => id),
+      manifestRolledBack: manifest.seq < knownSeq,
+    };
+  }
+
+  isClean(check: ManifestCheck): boolean {
+    return check.missing.length === 0 && check.unknown.length === 0 && check.rolledBack.length === 0 && !check.manifestRolledBack;
+  }
+
+  // Bring the manifest up to date with items newer than it lists, left behind by a write
+  // whose manifest update did not go through. Items it does not list are never added
+  // here, verify reports them. Returns null if nothing changed.
+  catchUp(manifest: VaultManifest, items: VaultItem[]): VaultManifest | null {
+    const newer = items.filter(item => item.id in manifest.items && (item.revision ?? 0) > manifest.items[item.id]);
+    if (newer.length === 0) return null;
+
+    return this.apply(manifest, Object.fromEntries(newer.map(item => [item.id, item.revision ?? 0])));
+  }
+
+  // A copy of the manifest with item revisions set, or moved to the tombstones where null
+  apply(manifest: VaultManifest, changes: Record<string, number | null>): VaultManifest {
+    const items = { ...manifest.items };
+    const deleted = { ...manifest.deleted };
+
+    for (const [id, revision] of Object.entries(changes)) {
+      if (revision === null) {
+        deleted[id] = items[id] ?? 0;
+        delete items[id];
+      } else {
+        items[id] = revision;
+      }
+    }
+
+    return { seq: manifest.seq + 1, items, deleted };
+  }
+}
+
+export default VaultManifestService.getInstance();
@@ -1,9 +1,20 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { supabase } from '../supabaseClient';
-import EncryptionService from '../services/encryption';
-import DatabaseService from '../services/database';
+import EncryptionService, { CURRENT_KDF_PARAMS } from '../services/encryption';
+import DatabaseService, { CURRENT_AUTH_SCHEME, type AuthScheme, type SharePermission, type UserProfile, type VaultCollaborator, type VaultIntegrity } from '../services/database';
+import MasterKeyService from '../services/masterKey';
+import AutoLockService, { DEFAULT_AUTO_LOCK_SETTINGS, type AutoLockSettings, type LockReason } from '../services/autoLock';
+import PinUnlockService, { EMPTY_PIN_STATE, type PinState, type PinUnlockResult } from '../services/pinUnlock';
+import RecoveryService from '../services/recovery';
+import KeypairService, { type SharingKeys } from '../services/keypair';
+import VaultKeyRotationService from '../services/vaultKeyRotation';
+import SharedVaultsService, { type PendingInvite, type VaultInvite } from '../services/sharedVaults';
+import ActivityLogService, { type ActivityAction, type ActivityDetails } from '../services/activityLog';
 import IndexedDBService from '../services/indexedDB';
+import SyncEngineService, { type PendingMutation } from '../services/syncEngine';
+import ItemMergeService, { type ItemConflict, type ItemFields } from '../services/itemMerge';
+import RealtimeSyncService, { type RealtimeHandlers } from '../services/realtimeSync';
 
 // Initialize services
 EncryptionService.initialize().catch(console.error);
@@ -15,14 +26,19 @@ export interface User {
   email: string;
 }
 
-export interface AuthState {
+export interface AuthState extends PinState {
   user: User | null;
   isLoading: boolean;
-  masterKey: Uint8Array | null;
-  encryptedPinKey: string | null; // Encrypted version of the master key using PIN
+  masterKey: CryptoKey | null; // Non-extractable, never persisted
+  vaultKeys: Record<string, CryptoKey>; // Decrypted per-vault keys, never persisted
+  sharingKeys: SharingKeys | null; // Unlocked sharing keypair, never persisted
   isUnlocked: boolean;
   lastActivity: Date | null;
+  autoLock: AutoLockSettings;
   deviceId: string;
+  authSchemes: Record<string, AuthScheme>; // Auth password of the accounts signed in on this device, by email
+  pendingRecoveryKey: string | null; // Recovery key to show in the kit after signup, never persisted
+  recoveryMode: boolean; // Signed in through a password reset link to recover the account
 }
 
 // UI state for mount points
@@ -36,15 +52,22 @@ export interface VaultItem {
   password?: string;
   notes?: string;
   tags?: string[];
+  revision?: number; // Incremented on every write, checked against the vault manifest
   createdAt: Date;
   updatedAt: Date;
 }
 
+// 'owner' for the user's own vaults, otherwise the permission of their share
+export type VaultAccess = 'owner' | SharePermission;
+
 export interface Vault {
   id: string;
   name: string; // Decrypted name
   items: VaultItem[];
   createdAt: Date;
+  access: VaultAccess;
+  owner?: { id: string; email: string }; // Set on vaults shared with the user
+  shared: boolean; // Shared with the user, or owned and shared with others
 }
 
 export interface VaultUIState {
@@ -52,16 +75,34 @@ export interface VaultUIState {
   currentVaultId: string | null;
   isLoading: boolean;
   error: string | null;
+  failedRecordCount: number; // Vaults and items that could not be decrypted on the last load
+  loadProgress: { done: number; total: number } | null; // Set while the first load after unlock runs
+  keyRotation: { vaultId: string; done: number; total: number } | null; // Set while a vault key is rotated
+  lockedOutMembers: Record<string, string[]>; // Emails of members the last key rotation of a vault could not give the new key
+  integrityIssues: VaultIntegrity[]; // Vaults whose items do not match their manifest on the last load
+  manifestSeqs: Record<string, number>; // Highest manifest sequence number seen per vault on this device
+  pendingInvites: PendingInvite[]; // Invitations to other users' vaults awaiting an answer
+  syncQueue: PendingMutation[]; // Item changes not yet on the server, oldest first
+  itemConflicts: Record<string, ItemConflict>; // Queued edits that clashed with a change made elsewhere, by mutation id
+  isOnline: boolean;
 }
 
 export interface AuthActions {
   // Authentication
   signUp: (email: string, password: string) => Promise<void>;
-  signIn: (email: string, password: string) => Promise<void>;
-  signOut: () => Promise<void>;
+  signIn: (email: string, password: string, legacyLogin?: boolean) => Promise<void>; // legacyLogin sends the master password itself, for accounts from before the login hash
+  signOut: (discardPending?: boolean) => Promise<void>; // Refuses while item changes wait to sync, unless discarding them
   unlockVault: (password: string) => Promise<void>;
   unlockWithPin: (pin: string) => Promise<void>;
-  setPin: (pin: string) => Promise<void>;
+  setPin: (pin: string, password: string) => Promise<void>;
+  removePin: () => void;
+  lock: (reason?: LockReason) => void;
+  updateAutoLockSettings: (settings: Partial<AutoLockSettings>) => void;
+  changeMasterPassword: (oldPassword: string, newPassword: string) => Promise<void>;
+  createRecoveryKit: (password: string) => Promise<string>;
+  dismissRecoveryKit: () => void;
+  requestAccountRecovery: (email: string) => Promise<void>;
+  recoverAccount: (recoveryKey: string, newPassword: string) => Promise<void>;
   reset: () => void;
 
   // Utility methods
@@ -75,14 +116,33 @@ export interface VaultUIActions {
   createVault: (name: string) => Promise<Vault>;
   updateVault: (vaultId: string, name: string) => Promise<void>;
   deleteVault: (vaultId: string) => Promise<void>;
+  rotateVaultKey: (vaultId: string) => Promise<void>;
+  acceptVaultIntegrity: (vaultId: string) => Promise<void>;
+  dismissLockedOutMembers: (vaultId: string) => void;
+  inviteToVault: (vaultId: string, email: string, permissions: SharePermission, expectedPublicKey?: string) => Promise<void>;
+  loadInvites: () => Promise<void>;
+  acceptInvite: (inviteId: string) => Promise<void>;
+  declineInvite: (inviteId: string) => Promise<void>;
+  resendInvite: (invite: VaultInvite) => Promise<void>;
+  cancelInvite: (inviteId: string) => Promise<void>;
+  updateMemberPermissions: (vaultId: string, member: VaultCollaborator, permissions: SharePermission) => Promise<void>;
+  revokeMember: (vaultId: string, member: VaultCollaborator, rotateKey: boolean) => Promise<void>;
+  transferOwnership: (vaultId: string, newOwnerId: string, newOwnerEmail: string) => Promise<void>;
   loadVaults: () => Promise<void>;
   selectVault: (vaultId: string) => void;
 
+  // Offline sync
+  syncPending: (force?: boolean) => Promise<void>;
+  discardPendingChange: (mutationId: string) => Promise<void>;
+  resolveConflict: (mutationId: string, resolved: ItemFields) => Promise<void>;
+  setOnline: (online: boolean) => void;
+
   // Item management
   createItem: (vaultId: string, item: Omit<VaultItem, 'id' | 'vaultId' | 'createdAt' | 'updatedAt'>) => Promise<VaultItem>;
   updateItem: (itemId: string, updates: Partial<VaultItem>) => Promise<void>;
   deleteItem: (itemId: string) => Promise<void>;
-  copyToClipboard: (text: string, type: 'password' | 'username') => Promise<void>;
+  copyToClipboard: (text: string, type: 'password' | 'username', itemId?: string) => Promise<void>;
+  recordItemAccess: (itemId: string, action: 'reveal' | 'copy', field: string) => void;
 }
 
 // Combined store interface
@@ -96,10 +156,16 @@ const initialAuthState: AuthState = {
   user: null,
   isLoading: true,
   masterKey: null,
-  encryptedPinKey: null,
+  vaultKeys: {},
+  sharingKeys: null,
+  ...EMPTY_PIN_STATE,
   isUnlocked: false,
   lastActivity: null,
+  autoLock: DEFAULT_AUTO_LOCK_SETTINGS,
   deviceId: '',
+  authSchemes: {},
+  pendingRecoveryKey: null,
+  recoveryMode: false,
 };
 
 const initialVaultState: VaultUIState = {
@@ -107,6 +173,16 @@ const initialVaultState: VaultUIState = {
   currentVaultId: null,
   isLoading: false,
   error: null,
+  failedRecordCount: 0,
+  loadProgress: null,
+  keyRotation: null,
+  lockedOutMembers: {},
+  integrityIssues: [],
+  manifestSeqs: {},
+  pendingInvites: [],
+  syncQueue: [],
+  itemConflicts: {},
+  isOnline: navigator.onLine,
 };
 
 // Store implementation
@@ -125,8 +201,14 @@ export const useAppStore = create<AppStore>()(
         // Only persist certain auth state
         user: state.user,
         encryptedPinKey: state.encryptedPinKey,
+        pinKeyEncrypted: state.pinKeyEncrypted,
+        pinSalt: state.pinSalt,
+        pinKdf: state.pinKdf,
         deviceId: state.deviceId,
+        authSchemes: state.authSchemes,
         lastActivity: state.lastActivity,
+        autoLock: state.autoLock,
+        manifestSeqs: state.manifestSeqs,
       }),
     }
   )
@@ -139,19 +221,37 @@ function authActions(set: any, get: () => AppStore): AuthActions {
       set({ isLoading: true });
 
       try {
+        // Supabase only ever sees the login hash, never the master password
         const { data, error } = await supabase.auth.signUp({
           email,
-          password,
+          password: await EncryptionService.deriveLoginHash(password, email),
         });
 
         if (error) throw error;
 
         if (data.user) {
           const salt = EncryptionService.generateSalt();
-          const masterKey = await EncryptionService.deriveMasterKey(password, salt);
-
-          // Save profile with salt
-          await DatabaseService.saveUserProfile(data.user.id, salt);
+          const rawKey = await EncryptionService.deriveMasterKey(password, salt, CURRENT_KDF_PARAMS);
+          const masterKey = await EncryptionService.importKey(rawKey);
+          let recoveryKey: string;
+          let sharingKeys: SharingKeys;
+
+          try {
+            // Save profile with salt, KDF parameters and key check value
+            const keyCheckEncrypted = await EncryptionService.createKeyCheck(masterKey);
+            await DatabaseService.saveUserProfile(data.user.id, salt, CURRENT_KDF_PARAMS, keyCheckEncrypted);
+
+            // Create the keypair others seal shared vault keys to
+            const keypair = await DatabaseService.saveKeypair(data.user.id, await KeypairService.create(data.user.id, masterKey));
+            sharingKeys = await KeypairService.unwrap(data.user.id, keypair, masterKey);
+
+            // Create the recovery key shown in the recovery kit
+            const created = await RecoveryService.create(data.user.id, rawKey);
+            await DatabaseService.saveRecoveryKey(data.user.id, created.recovery);
+            recoveryKey = created.recoveryKey;
+          } finally {
+            EncryptionService.wipe(rawKey);
+          }
 
           // Save device
           const deviceId = EncryptionService.generateRandomString();
@@ -160,9 +260,12 @@ function authActions(set: any, get: () => AppStore): AuthActions {
           set({
             user: { id: data.user.id, email: data.user.email! },
             masterKey,
+            vaultKeys: {},
+            sharingKeys,
             isUnlocked: true,
             lastActivity: new Date(),
             deviceId,
+            pendingRecoveryKey: recoveryKey,
           });
         }
       } finally {
@@ -170,20 +273,30 @@ function authActions(set: any, get: () => AppStore): AuthActions {
       }
     },
 
-    async signIn(email: string, password: string) {
+    async signIn(email: string, password: string, legacyLogin = false) {
       set({ isLoading: true });
 
       try {
+        // Accounts created before the login hash still use the master password as their
+        // auth password, and are moved over once signed in. Which accounts those are is
+        // not looked up, that would tell anyone which emails have an account: only this
+        // device's record or the user's own choice sends the master password, and a
+        // failed sign-in is never retried with it.
+        const useLegacy = legacyLogin || get().authSchemes[email.trim().toLowerCase()] === 'legacy';
+        const loginHash = await EncryptionService.deriveLoginHash(password, email);
         const { data, error } = await supabase.auth.signInWithPassword({
           email,
-          password,
+          password: useLegacy ? password : loginHash,
         });
 
         if (error) throw error;
 
-        if (data.user) {
-          set({ user: { id: data.user.id, email: data.user.email! } });
+        let authScheme: AuthScheme = CURRENT_AUTH_SCHEME;
+        if (useLegacy && !await migrateLegacyAuth(data.user.id, loginHash)) {
+          authScheme = 'legacy';
         }
+        set({ user: { id: data.user.id, email: data.user.email! } });
+        rememberAuthScheme(set, email, authScheme);
 
         await get().unlockVault(password);
       } finally {
@@ -191,7 +304,26 @@ function authActions(set: any, get: () => AppStore): AuthActions {
       }
     },
 
-    async signOut() {
+    async signOut(discardPending = false) {
+      // Queued changes only exist on this device and are cleared with it. The queue is
+      // read from storage, it is not held in state while locked.
+      const user = get().user;
+      const pending = user
+        ? await SyncEngineService.getPending(user.id).catch(() => get().syncQueue)
+        : [];
+      if (pending.length > 0 && !discardPending) {
+        throw new Error(`${pending.length} ${pending.length === 1 ? 'change has' : 'changes have'} not synced yet. Go online to sync them before signing out.`);
+      }
+
+      AutoLockService.broadcastLock();
+      SyncEngineService.cancelRetry();
+      RealtimeSyncService.stop();
+
+      // The PIN is cleared with the rest of this device's state, while the session can still remove its key
+      if (PinUnlockService.isConfigured(get())) {
+        await PinUnlockService.removeServerKey(get().deviceId);
+      }
+
       const { error } = await supabase.auth.signOut();
       if (error) console.error('Sign out error:', error);
 
@@ -205,10 +337,21 @@ function authActions(set: any, get: () => AppStore): AuthActions {
       set({
         user: null,
         masterKey: null,
+        vaultKeys: {},
+        sharingKeys: null,
         isUnlocked: false,
         lastActivity: null,
         vaults: [],
         currentVaultId: null,
+        failedRecordCount: 0,
+        integrityIssues: [],
+        lockedOutMembers: {},
+        pendingInvites: [],
+        syncQueue: [],
+        itemConflicts: {},
+        pendingRecoveryKey: null,
+        recoveryMode: false,
+        ...EMPTY_PIN_STATE,
       });
     },
 
@@ -216,13 +359,19 @@ function authActions(set: any, get: () => AppStore): AuthActions {
       if (!get().user) throw new Error('No user logged in');
 
       const userId = get().user!.id;
-      let profile = await DatabaseService.getUserProfile(userId);
-      let salt: Uint8Array;
+      const profile = await DatabaseService.getUserProfile(userId);
+
+      // Never invent a new salt here: that would derive a key nothing was encrypted with
+      if (!profile) throw new Error('No encryption profile found for this account');
 
-      if (!profile) {
-        // Create profile if it doesn't exist
-        salt = EncryptionService.generateSalt();
-        await DatabaseService.saveUserProfile(userId, salt);
+      const kdf = profile.kdf;
+      let rawKey = await EncryptionService.deriveMasterKey(password, profile.salt, kdf);
+      let masterKey: CryptoKey;
+
+      try {
+        if (!await isMasterPassword(get().user!, password, rawKey, profile)) {
+          throw new Error('Incorrect master password');
+        }
 
         // Create device if it doesn't exist
         if (!get().deviceId) {
@@ -230,11 +379,45 @@ function authActions(set: any, get: () => AppStore): AuthActions {
           await DatabaseService.saveDevice(userId, deviceId);
           set({ deviceId });
         }
-      } else {
-        salt = profile.salt;
-      }
 
-      const masterKey = await EncryptionService.deriveMasterKey(password, salt);
+        // Finish a master key change that was interrupted on this or another device
+        if (profile.previousKeyEncrypted) {
+          await MasterKeyService.resumeRekey(userId, rawKey, profile.previousKeyEncrypted);
+        }
+
+        // A master password change finished re-wrapping but never reached the auth password
+        if (profile.authUpdatePending) {
+          try {
+            await completeAuthPasswordUpdate(set, get().user!, password);
+          } catch (error) {
+            // Retried on the next unlock
+            console.error('Error updating auth password:', error);
+          }
+        }
+
+        // Move accounts on older KDF settings to the current ones
+        if (EncryptionService.isKdfOutdated(kdf)) {
+          let upgradedKey: Uint8Array | null = null;
+          try {
+            upgradedKey = await MasterKeyService.upgradeKdf(userId, password, rawKey);
+          } catch (error) {
+            // Nothing changed before the profile switched (see MasterKeyService.rekey), the
+            // old key stays in use and the upgrade is retried on the next unlock
+            console.error('Error upgrading key derivation:', error);
+          }
+
+          // The account is on the new key from here on, whatever else fails
+          if (upgradedKey) {
+            set(await PinUnlockService.rewrap(get(), rawKey, upgradedKey));
+            EncryptionService.wipe(rawKey);
+            rawKey = upgradedKey;
+          }
+        }
+
+        masterKey = await openMasterKey(userId, rawKey);
+      } finally {
+        EncryptionService.wipe(rawKey);
+      }
 
       // Update device last seen
       if (get().deviceId) {
@@ -243,7 +426,9 @@ function authActions(set: any, get: () => AppStore): AuthActions {
 
       set({
         masterKey,
+        sharingKeys: await openSharingKeys(userId, masterKey),
         isUnlocked: true,
+        recoveryMode: false,
         lastActivity: new Date(),
       });
 
@@ -252,16 +437,47 @@ function authActions(set: any, get: () => AppStore): AuthActions {
     },
 
     async unlockWithPin(pin: string) {
-      const encryptedPinKey = get().encryptedPinKey;
-      if (!encryptedPinKey || !get().user) throw new Error('PIN not set or no user');
+      const user = get().user;
+      if (!user || !PinUnlockService.isConfigured(get())) throw new Error('PIN not set or no user');
 
-      const userId = get().user!.id;
-      const pinDerivedKey = await EncryptionService.deriveMasterKey(pin, EncryptionService.generateSalt());
-      const masterKeyBase64 = await EncryptionService.decrypt(encryptedPinKey, pinDerivedKey);
-      const masterKey = EncryptionService.fromBase64(masterKeyBase64);
+      // Attempts are counted by the server, which is asked for its half of the unlock key
+      let result: PinUnlockResult;
+      try {
+        result = await PinUnlockService.unwrapMasterKey(pin, get(), get().deviceId);
+      } catch (error) {
+        console.error('Error unlocking with PIN:', error);
+        throw new Error('Could not check the PIN. Check your connection or unlock with your master password.');
+      }
+
+      if (!result.masterKey) {
+        const remaining = result.attemptsLeft;
+        if (!remaining) {
+          set(EMPTY_PIN_STATE);
+          throw new Error(remaining === 0
+            ? 'Too many incorrect PIN attempts. Unlock with your master password.'
+            : 'PIN unlock is no longer set up on this device. Unlock with your master password to set a new PIN.');
+        }
+        throw new Error(`Incorrect PIN. ${remaining} ${remaining === 1 ? 'attempt' : 'attempts'} left.`);
+      }
+      const rawKey = result.masterKey;
+
+      let masterKey: CryptoKey;
+      try {
+        // The PIN was right but the master key may have changed on another device
+        if (await MasterKeyService.verifyMasterKey(user.id, rawKey) !== 'valid') {
+          await PinUnlockService.removeServerKey(get().deviceId);
+          set(EMPTY_PIN_STATE);
+          throw new Error('Your master password has changed or could not be verified. Unlock with it to set up a new PIN.');
+        }
+
+        masterKey = await openMasterKey(user.id, rawKey);
+      } finally {
+        EncryptionService.wipe(rawKey);
+      }
 
       set({
         masterKey,
+        sharingKeys: await openSharingKeys(user.id, masterKey),
         isUnlocked: true,
         lastActivity: new Date(),
       });
@@ -269,14 +485,154 @@ function authActions(set: any, get: () => AppStore): AuthActions {
       await get().loadVaults();
     },
 
-    async setPin(pin: string) {
-      if (!get().masterKey || !get().user) throw new Error('Not unlocked or no user');
+    async setPin(pin: string, password: string) {
+      const user = get().user;
+      if (!get().masterKey || !user) throw new Error('Not unlocked or no user');
+      if (!get().deviceId) throw new Error('This device is not registered, sign in again to set a PIN');
+
+      const validationError = PinUnlockService.validatePin(pin);
+      if (validationError) throw new Error(validationError);
+
+      // The held master key cannot be exported, so the raw key is derived again to wrap it
+      const rawKey = await deriveVerifiedKey(user, password);
+      try {
+        set(await PinUnlockService.createPinState(pin, rawKey, get().deviceId));
+      } finally {
+        EncryptionService.wipe(rawKey);
+      }
+    },
+
+    removePin() {
+      if (PinUnlockService.isConfigured(get())) {
+        PinUnlockService.removeServerKey(get().deviceId);
+      }
+      set(EMPTY_PIN_STATE);
+    },
+
+    lock(reason: LockReason = 'manual') {
+      // Queued changes stay in IndexedDB and are replayed after the next unlock
+      SyncEngineService.cancelRetry();
+      RealtimeSyncService.stop();
+
+      // Drop every key and all decrypted data; the unlock screen shows while user is kept
+      set({
+        masterKey: null,
+        vaultKeys: {},
+        sharingKeys: null,
+        isUnlocked: false,
+        vaults: [],
+        currentVaultId: null,
+        failedRecordCount: 0,
+        integrityIssues: [],
+        lockedOutMembers: {},
+        pendingInvites: [],
+        syncQueue: [],
+        itemConflicts: {},
+        pendingRecoveryKey: null,
+      });
+
+      if (reason !== 'other-tab') {
+        AutoLockService.broadcastLock();
+      }
+    },
+
+    updateAutoLockSettings(settings: Partial<AutoLockSettings>) {
+      set((state: AppStore) => ({ autoLock: { ...state.autoLock, ...settings } }));
+    },
+
+    async changeMasterPassword(oldPassword: string, newPassword: string) {
+      const { user, masterKey } = get();
+      if (!masterKey || !user) throw new Error('Not unlocked or no user');
+
+      const oldKey = await deriveVerifiedKey(user, oldPassword, 'Current master password is incorrect');
+      let newKey: Uint8Array | null = null;
+
+      try {
+        newKey = await MasterKeyService.changePassword(user.id, oldKey, newPassword);
+
+        set({
+          masterKey: await EncryptionService.importKey(newKey),
+          ...await PinUnlockService.rewrap(get(), oldKey, newKey),
+        });
+      } finally {
+        EncryptionService.wipe(oldKey);
+        if (newKey) EncryptionService.wipe(newKey);
+      }
 
-      const pinDerivedKey = await EncryptionService.deriveMasterKey(pin, EncryptionService.generateSalt());
-      const masterKeyBase64 = EncryptionService.toBase64(get().masterKey!);
-      const encryptedMasterKey = await EncryptionService.encrypt(masterKeyBase64, pinDerivedKey);
+      await completeAuthPasswordUpdate(set, user, newPassword);
+    },
+
+    async createRecoveryKit(password: string) {
+      const user = get().user;
+      if (!get().masterKey || !user) throw new Error('Not unlocked or no user');
+
+      // Replaces any previous recovery key, which stops working
+      const rawKey = await deriveVerifiedKey(user, password);
+      try {
+        const { recoveryKey, recovery } = await RecoveryService.create(user.id, rawKey);
+        await DatabaseService.saveRecoveryKey(user.id, recovery);
+        return recoveryKey;
+      } finally {
+        EncryptionService.wipe(rawKey);
+      }
+    },
 
-      set({ encryptedPinKey: encryptedMasterKey });
+    dismissRecoveryKit() {
+      set({ pendingRecoveryKey: null });
+    },
+
+    async requestAccountRecovery(email: string) {
+      // The emailed link signs the user in; see the PASSWORD_RECOVERY listener below
+      const { error } = await supabase.auth.resetPasswordForEmail(email.trim(), {
+        redirectTo: window.location.origin,
+      });
+      if (error) throw error;
+    },
+
+    async recoverAccount(recoveryKey: string, newPassword: string) {
+      const user = get().user;
+      if (!user) throw new Error('No user logged in');
+
+      const profile = await DatabaseService.getUserProfile(user.id);
+      if (!profile) throw new Error('No encryption profile found for this account');
+      if (!profile.recovery) throw new Error('This account has no recovery key');
+
+      const oldKey = await RecoveryService.unwrapMasterKey(user.id, recoveryKey, profile.recovery);
+      let newKey: Uint8Array | null = null;
+
+      try {
+        if (await MasterKeyService.verifyMasterKey(user.id, oldKey, profile) === 'invalid') {
+          throw new Error('Invalid recovery key');
+        }
+
+        if (profile.previousKeyEncrypted) {
+          await MasterKeyService.resumeRekey(user.id, oldKey, profile.previousKeyEncrypted);
+        }
+
+        newKey = await MasterKeyService.changePassword(user.id, oldKey, newPassword);
+        set(await PinUnlockService.rewrap(get(), oldKey, newKey));
+
+        const masterKey = await openMasterKey(user.id, newKey);
+        set({
+          masterKey,
+          sharingKeys: await openSharingKeys(user.id, masterKey),
+          isUnlocked: true,
+          recoveryMode: false,
+          lastActivity: new Date(),
+        });
+      } finally {
+        EncryptionService.wipe(oldKey);
+        if (newKey) EncryptionService.wipe(newKey);
+      }
+
+      try {
+        await completeAuthPasswordUpdate(set, user, newPassword);
+      } catch (error) {
+        // The profile stays flagged and the update is retried on the next unlock
+        console.error('Error updating auth password:', error);
+      }
+
+      await get().loadVaults();
     },
 
     reset() {
@@ -315,6 +671,162 @@ function authActions(set: any, get: () => AppStore): AuthActions {
   };
 }
 
+// Point the Supabase auth password at the new master password and clear the pending flag
+async function completeAuthPasswordUpdate(
+  set: (update: (state: AppStore) => Partial<AppStore>) => void,
+  user: User,
+  password: string
+): Promise<void> {
+  const loginHash = await EncryptionService.deriveLoginHash(password, user.email);
+  const { error } = await supabase.auth.updateUser({ password: loginHash });
+  if (error) throw error;
+
+  rememberAuthScheme(set, user.email, CURRENT_AUTH_SCHEME);
+  await DatabaseService.setAuthScheme(user.id, CURRENT_AUTH_SCHEME);
+  await DatabaseService.clearAuthUpdatePending(user.id);
+}
+
+// Record what an account sends as its auth password on this device (see signIn)
+function rememberAuthScheme(set: (update: (state: AppStore) => Partial<AppStore>) => void, email: string, authScheme: AuthScheme): void {
+  set(state => ({ authSchemes: { ...state.authSchemes, [email.trim().toLowerCase()]: authScheme } }));
+}
+
+// Replace a legacy auth password (the raw master password) with the login hash
+async function migrateLegacyAuth(userId: string, loginHash: string): Promise<boolean> {
+  try {
+    const { error } = await supabase.auth.updateUser({ password: loginHash });
+    if (error) throw error;
+
+    await DatabaseService.setAuthScheme(userId, CURRENT_AUTH_SCHEME);
+    return true;
+  } catch (error) {
+    // Signing in still works with the legacy password, retried on the next sign-in
+    console.error('Error migrating auth password:', error);
+    return false;
+  }
+}
+
+// Derive the raw master key from the password and check it against the profile.
+// Callers wipe the returned bytes.
+async function deriveVerifiedKey(user: User, password: string, errorMessage = 'Incorrect master password'): Promise<Uint8Array> {
+  const profile = await DatabaseService.getUserProfile(user.id);
+  if (!profile) throw new Error('No user profile found');
+
+  const rawKey = await EncryptionService.deriveMasterKey(password, profile.salt, profile.kdf);
+  if (!await isMasterPassword(user, password, rawKey, profile)) {
+    EncryptionService.wipe(rawKey);
+    throw new Error(errorMessage);
+  }
+
+  return rawKey;
+}
+
+// Check a master password through the key derived from it. Accounts holding nothing
+// the key can be checked against yet prove the password to the auth server instead,
+// whose password is derived from it, and get a key check stored once that succeeds.
+async function isMasterPassword(user: User, password: string, rawKey: Uint8Array, profile: UserProfile): Promise<boolean> {
+  const verification = await MasterKeyService.verifyMasterKey(user.id, rawKey, profile);
+  if (verification !== 'unverifiable') return verification === 'valid';
+
+  // Accounts from before the login hash still use the master password itself (see signIn)
+  const { error } = await supabase.auth.signInWithPassword({
+    email: user.email,
+    password: profile.authScheme === 'legacy' ? password : await EncryptionService.deriveLoginHash(password, user.email),
+  });
+  if (error) return false;
+
+  await DatabaseService.saveKeyCheck(user.id, await EncryptionService.createKeyCheck(rawKey));
+  return true;
+}
+
+// Last step of every unlock while the raw master key is still around: adopt legacy
+// vaults, then import the key as a non-extractable handle
+async function openMasterKey(userId: string, rawKey: Uint8Array): Promise<CryptoKey> {
+  try {
+    await MasterKeyService.adoptLegacyVaults(userId, rawKey);
+  } catch (error) {
+    // Those vaults stay readable with the master key, retried on the next unlock
+    console.error('Error adopting legacy vaults:', error);
+  }
+
+  return EncryptionService.importKey(rawKey);
+}
+
+// Unlock the sharing keypair. The vault still opens without it, only sharing is unavailable.
+async function openSharingKeys(userId: string, masterKey: CryptoKey): Promise<SharingKeys | null> {
+  try {
+    return await KeypairService.open(userId, masterKey);
+  } catch (error) {
+    console.error('Error opening sharing keypair:', error);
+    return null;
+  }
+}
+
+// Check the user's access to a loaded vault before changing it
+function requireAccess(get: () => AppStore, vaultId: string, required: VaultAccess): void {
+  const vault = get().vaults.find(v => v.id === vaultId);
+  if (vault && !SharedVaultsService.hasAccess(vault, required)) {
+    throw new Error(required === 'owner' ? 'Only the owner can do this' : "You don't have permission to change this vault");
+  }
+}
+
+// Look up the decrypted key of a loaded vault for a write. Writes wait while the vault
+// key is rotated, as they would be encrypted with the key being replaced.
+function getVaultKey(get: () => AppStore, vaultId: string, required: VaultAccess = 'write'): CryptoKey {
+  requireAccess(get, vaultId, required);
+  if (get().keyRotation?.vaultId === vaultId) throw new Error('Vault key rotation in progress, try again shortly');
+  const vaultKey = get().vaultKeys[vaultId];
+  if (!vaultKey) throw new Error('Vault key not available');
+  return vaultKey;
+}
+
+// Replace the items of a loaded vault
+function patchVaultItems(set: (update: (state: AppStore) => Partial<AppStore>) => void, vaultId: string, update: (items: VaultItem[]) => VaultItem[]): void {
+  set((state: AppStore) => ({
+    vaults: state.vaults.map(vault => vault.id === vaultId ? { ...vault, items: update(vault.items) } : vault),
+  }));
+}
+
+// Apply changes from other devices and collaborators as they arrive (see
+// RealtimeSyncService). Items with local changes still queued keep those until they
+// reach the server and the vaults are reloaded.
+function realtimeHandlers(get: () => AppStore, set: (update: (state: AppStore) => Partial<AppStore>) => void): RealtimeHandlers {
+  return {
+    getVaultKey: vaultId => get().keyRotation?.vaultId === vaultId ? undefined : get().vaultKeys[vaultId],
+    hasItem: (vaultId, itemId) => !!get().vaults.find(v => v.id === vaultId)?.items.some(i => i.id === itemId),
+    onItemChanged: item => {
+      if (get().syncQueue.some(mutation => mutation.itemId === item.id)) return;
+      // Events can arrive out of order, and an older revision is never taken over
+      patchVaultItems(set, item.vaultId, items => items.map(i =>
+        i.id === item.id && (i.revision ?? 0) < (item.revision ?? 0) ? item : i
+      ));
+    },
+    onVaultRenamed: (vaultId, name) => set((state: AppStore) => ({
+      vaults: state.vaults.map(vault => vault.id === vaultId && vault.name !== name ? { ...vault, name } : vault),
+    })),
+    onGap: () => {
+      if (get().isUnlocked) get().loadVaults();
+    },
+  };
+}
+
+// Copy of a record without one key
+function omitKey<T>(record: Record<string, T>, key: string): Record<string, T> {
+  const rest = { ...record };
+  delete rest[key];
+  return rest;
+}
+
+// Add an entry to a vault's activity log (see ActivityLogService). Not awaited by
+// callers, logging never holds up or fails the action itself.
+function logActivity(get: () => AppStore, vaultId: string, action: ActivityAction, details?: ActivityDetails, itemId?: string): Promise<void> {
+  const vault = get().vaults.find(v => v.id === vaultId);
+  const vaultKey = get().vaultKeys[vaultId];
+  if (!vault || !vaultKey || !get().user) return Promise.resolve();
+
+  return ActivityLogService.record(vault, get().user!.id, action, vaultKey, details, itemId);
+}
+
 // Vault UI actions
 function vaultUIActions(set: any, get: () => AppStore): VaultUIActions {
   return {
@@ -322,7 +834,8 @@ function vaultUIActions(set: any, get: () => AppStore): VaultUIActions {
       const masterKey = get().masterKey!;
       const userId = get().user!.id;
 
-      const vault = await DatabaseService.createVault(userId, name, masterKey);
+      const { vault, vaultKey } = await DatabaseService.createVault(userId, name, masterKey);
+      set((state: AppStore) => ({ vaultKeys: { ...state.vaultKeys, [vault.id]: vaultKey } }));
 
       // Refresh vaults in state
       await get().loadVaults();
@@ -331,38 +844,238 @@ function vaultUIActions(set: any, get: () => AppStore): VaultUIActions {
     },
 
     async updateVault(vaultId: string, name: string) {
-      const masterKey = get().masterKey!;
+      const vaultKey = getVaultKey(get, vaultId, 'owner');
 
-      await DatabaseService.updateVault(vaultId, name, masterKey);
+      await DatabaseService.updateVault(vaultId, name, vaultKey);
 
       // Refresh vaults in state
       await get().loadVaults();
     },
 
     async deleteVault(vaultId: string) {
+      requireAccess(get, vaultId, 'owner');
       await DatabaseService.deleteVault(vaultId);
 
       // Remove from local state
-      set(state => ({
-        vaults: state.vaults.filter(v => v.id !== vaultId),
-        currentVaultId: state.currentVaultId === vaultId ? null : state.currentVaultId,
+      set((state: AppStore) => {
+        const vaultKeys = { ...state.vaultKeys };
+        delete vaultKeys[vaultId];
+
+        return {
+          vaults: state.vaults.filter(v => v.id !== vaultId),
+          vaultKeys,
+          currentVaultId: state.currentVaultId === vaultId ? null : state.currentVaultId,
+        };
+      });
+    },
+
+    async rotateVaultKey(vaultId: string) {
+      if (get().keyRotation) throw new Error('A vault key rotation is already running');
+      requireAccess(get, vaultId, 'owner');
+      const masterKey = get().masterKey!;
+
+      set({ keyRotation: { vaultId, done: 0, total: 0 } });
+      try {
+        const { vaultKey, lockedOut } = await VaultKeyRotationService.rotateVaultKey(vaultId, get().user!.id, masterKey, (done, total) => {
+          set({ keyRotation: { vaultId, done, total } });
+        });
+        if (get().masterKey !== masterKey) return; // Locked while the rotation ran
+        set((state: AppStore) => ({
+          vaultKeys: { ...state.vaultKeys, [vaultId]: vaultKey },
+          lockedOutMembers: lockedOut.length > 0
+            ? { ...state.lockedOutMembers, [vaultId]: lockedOut.map(member => member.email) }
+            : state.lockedOutMembers,
+        }));
+      } finally {
+        set({ keyRotation: null });
+      }
+
+      await get().loadVaults();
+    },
+
+    // Accept the current contents of a vault after reviewing an integrity warning
+    async acceptVaultIntegrity(vaultId: string) {
+      const vault = get().vaults.find(v => v.id === vaultId);
+      if (!vault) throw new Error('Vault not found');
+      const vaultKey = getVaultKey(get, vaultId);
+
+      const seq = await DatabaseService.resetManifest(vaultId, vault.items, vaultKey, get().manifestSeqs[vaultId]);
+      set((state: AppStore) => ({
+        manifestSeqs: { ...state.manifestSeqs, [vaultId]: seq },
+        integrityIssues: state.integrityIssues.filter(issue => issue.vaultId !== vaultId),
       }));
     },
 
+    dismissLockedOutMembers(vaultId: string) {
+      set((state: AppStore) => {
+        const lockedOutMembers = { ...state.lockedOutMembers };
+        delete lockedOutMembers[vaultId];
+        return { lockedOutMembers };
+      });
+    },
+
+    async inviteToVault(vaultId: string, email: string, permissions: SharePermission, expectedPublicKey?: string) {
+      const vault = get().vaults.find(v => v.id === vaultId);
+      if (!vault) throw new Error('Vault not found');
+      if (get().keyRotation?.vaultId === vaultId) throw new Error('Vault key rotation in progress, try again shortly');
+
+      const invite = await SharedVaultsService.createVaultInvite(
+        vault, get().user!, email, permissions, get().masterKey!, get().sharingKeys, expectedPublicKey
+      );
+      logActivity(get, vaultId, 'share', { member: invite.inviteeEmail, permissions });
+    },
+
+    async loadInvites() {
+      const user = get().user;
+      const sharingKeys = get().sharingKeys;
+      if (!user || !sharingKeys) return;
+
+      const pendingInvites = await SharedVaultsService.getPendingInvites(user, sharingKeys);
+      if (get().sharingKeys !== sharingKeys) return; // Locked while loading
+      set({ pendingInvites });
+    },
+
+    async acceptInvite(inviteId: string) {
+      const sharingKeys = get().sharingKeys;
+      if (!sharingKeys) throw new Error('Sharing keys not available');
+
+      const invite = get().pendingInvites.find(i => i.id === inviteId);
+      await SharedVaultsService.acceptVaultInvite(inviteId, get().user!, sharingKeys);
+      set((state: AppStore) => ({ pendingInvites: state.pendingInvites.filter(invite => invite.id !== inviteId) }));
+
+      await get().loadVaults();
+      if (invite) logActivity(get, invite.vaultId, 'join', { permissions: invite.permissions });
+    },
+
+    async declineInvite(inviteId: string) {
+      if (!await SharedVaultsService.declineVaultInvite(inviteId)) {
+        throw new Error('Failed to decline invitation');
+      }
+      set((state: AppStore) => ({ pendingInvites: state.pendingInvites.filter(invite => invite.id !== inviteId) }));
+    },
+
+    async resendInvite(invite: VaultInvite) {
+      const vault = get().vaults.find(v => v.id === invite.vaultId);
+      if (!vault) throw new Error('Vault not found');
+      requireAccess(get, vault.id, 'admin');
+
+      await SharedVaultsService.resendVaultInvite(invite, vault, get().user!, get().masterKey!, get().sharingKeys);
+      logActivity(get, vault.id, 'share', { member: invite.inviteeEmail, permissions: invite.permissions });
+    },
+
+    async cancelInvite(inviteId: string) {
+      if (!await SharedVaultsService.cancelVaultInvite(inviteId)) {
+        throw new Error('Failed to cancel invitation');
+      }
+    },
+
+    async updateMemberPermissions(vaultId: string, member: VaultCollaborator, permissions: SharePermission) {
+      requireAccess(get, vaultId, 'admin');
+
+      if (!await SharedVaultsService.updateSharedVaultPermissions(vaultId, member.userId, permissions)) {
+        throw new Error('Failed to update permissions');
+      }
+      logActivity(get, vaultId, 'permission', { member: member.email, permissions });
+    },
+
+    // Remove a member. Rotating the key as well keeps them out of anything added
+    // later, only the owner can do that.
+    async revokeMember(vaultId: string, member: VaultCollaborator, rotateKey: boolean) {
+      requireAccess(get, vaultId, rotateKey ? 'owner' : 'admin');
+
+      if (!await SharedVaultsService.revokeVaultAccess(vaultId, member.userId)) {
+        throw new Error('Failed to revoke access');
+      }
+      // Written before the rotation starts, so it is re-encrypted along with the rest
+      await logActivity(get, vaultId, 'revoke', { member: member.email });
+
+      if (rotateKey) {
+        await get().rotateVaultKey(vaultId);
+      }
+    },
+
+    async transferOwnership(vaultId: string, newOwnerId: string, newOwnerEmail: string) {
+      const vault = get().vaults.find(v => v.id === vaultId);
+      if (!vault) throw new Error('Vault not found');
+      if (get().keyRotation?.vaultId === vaultId) throw new Error('Vault key rotation in progress, try again shortly');
+
+      await SharedVaultsService.transferOwnership(vault, newOwnerId, get().user!, get().masterKey!, get().sharingKeys);
+      logActivity(get, vaultId, 'transfer', { member: newOwnerEmail });
+
+      await get().loadVaults();
+    },
+
     async loadVaults() {
       set({ isLoading: true });
       try {
         const masterKey = get().masterKey!;
         const userId = get().user!.id;
 
-        const vaults = await DatabaseService.getVaults(userId, masterKey);
+        // Only the first load after unlock shows progress; reloads after edits stay quiet
+        const onProgress = get().vaults.length === 0
+          ? (done: number, total: number) => set({ loadProgress: { done, total } })
+          : undefined;
+
+        // Without the sharing keypair only the user's own vaults can be opened
+        const sharingKeys = get().sharingKeys;
+        if (sharingKeys) {
+          await SharedVaultsService.completeOwnershipTransfers(get().user!, masterKey, sharingKeys)
+            .catch(error => console.error('Error taking over transferred vaults:', error));
+        }
+        const shared = sharingKeys
+          ? await SharedVaultsService.getSharedVaults(get().user!, sharingKeys)
+          : { vaults: [], failedCount: 0 };
+
+        // Only items changed since the last load are fetched, the rest keep their decrypted copy
+        const { vaults: serverVaults, vaultKeys, failedCount, legacyRecords, plaintextMetadata, pendingRotations, integrity } =
+          await DatabaseService.getVaults(userId, masterKey, onProgress, get().manifestSeqs, shared.vaults, get().vaults);
+
+        // Changes still queued on this device are shown on top of the server copy
+        const vaults = await SyncEngineService.applyPending(userId, serverVaults, vaultKeys);
 
-        set({ vaults, error: null });
+        // Locked or signed out while loading: keep nothing and subscribe to nothing
+        if (get().masterKey !== masterKey) return;
+
+        // Remember manifest sequence numbers to catch the manifest itself being rolled back
+        const manifestSeqs = { ...get().manifestSeqs };
+        integrity.forEach(({ vaultId, seq }) => { manifestSeqs[vaultId] = Math.max(manifestSeqs[vaultId] ?? 0, seq); });
+        const integrityIssues = integrity.filter(check =>
+          check.manifestUnreadable || check.manifestRolledBack
+          || check.missing.length > 0 || check.unknown.length > 0 || check.rolledBack.length > 0
+        );
+
+        set({ vaults, vaultKeys, failedRecordCount: failedCount + shared.failedCount, integrityIssues, manifestSeqs, error: null });
+
+        // Follow changes made elsewhere from here on
+        RealtimeSyncService.start(userId, realtimeHandlers(get, set));
+        RealtimeSyncService.watchVaults(vaults.map(vault => vault.id));
+
+        get().loadInvites().catch(error => console.error('Error loading invites:', error));
+        get().syncPending();
+
+        // Finish a key rotation that was interrupted, one vault at a time
+        if (pendingRotations.length > 0 && !get().keyRotation) {
+          get().rotateVaultKey(pendingRotations[0])
+            .catch(error => console.error('Error resuming vault key rotation:', error));
+        }
+
+        // Move records still in the legacy ciphertext format to the envelope format, after
+        // plaintext item metadata has been encrypted, which upgrades those items as well
+        const itemVaultIds = Object.fromEntries(vaults.flatMap(v => v.items.map(i => [i.id, v.id])));
+        DatabaseService.encryptItemMetadata(plaintextMetadata, vaults.flatMap(v => v.items), vaultKeys)
+          .then(() => DatabaseService.upgradeLegacyRecords(
+            legacyRecords,
+            itemVaultIds,
+            masterKey,
+            vaultKeys,
+            vaults.filter(v => v.access === 'owner').map(v => v.id)
+          ))
+          .catch(error => console.error('Error upgrading legacy records:', error));
       } catch (error) {
         console.error('Error loading vaults:', error);
         set({ error: error instanceof Error ? error.message : 'Failed to load vaults' });
       } finally {
-        set({ isLoading: false });
+        set({ isLoading: false, loadProgress: null });
       }
     },
 
@@ -370,36 +1083,127 @@ function vaultUIActions(set: any, get: () => AppStore): VaultUIActions {
       set({ currentVaultId: vaultId });
     },
 
-    async createItem(vaultId: string, itemData: Omit<VaultItem, 'id' | 'vaultId' | 'createdAt' | 'updatedAt'>) {
-      const masterKey = get().masterKey!;
+    // Replay queued item changes. Successful ones are logged and the vaults reloaded to
+    // pick up the server copy; failed ones are retried when their backoff runs out.
+    async syncPending(force = false) {
+      const user = get().user;
+      if (!user || !get().isUnlocked || get().keyRotation) return;
+
+      const refreshQueue = async () => set({ syncQueue: await SyncEngineService.getPending(user.id) });
+
+      try {
+        const applied = await SyncEngineService.replay(user.id, get().vaultKeys, {
+          onApplied: (mutation, payload) => {
+            const itemName = payload.item?.name ?? payload.updates?.name ?? payload.name
+              ?? get().vaults.flatMap(v => v.items).find(i => i.id === mutation.itemId)?.name;
+            // Deleted rows are gone, so no item_id
+            logActivity(get, mutation.vaultId, mutation.type, { itemName }, mutation.type === 'delete' ? undefined : mutation.itemId);
+            set((state: AppStore) => ({ itemConflicts: omitKey(state.itemConflicts, mutation.id) }));
+          },
+          onConflict: (mutation, conflict) => {
+            set((state: AppStore) => ({ itemConflicts: { ...state.itemConflicts, [mutation.id]: conflict } }));
+          },
+          onChange: () => { refreshQueue().catch(console.error); },
+        }, force);
+
+        await refreshQueue();
+        if (applied > 0) await get().loadVaults();
+      } catch (error) {
+        console.error('Error syncing queued changes:', error);
+      }
+
+      if (get().isUnlocked) {
+        SyncEngineService.scheduleRetry(get().syncQueue, () => get().syncPending());
+      }
+    },
+
+    // Drop a queued change that keeps failing, then reload to show the server copy
+    async discardPendingChange(mutationId: string) {
+      await SyncEngineService.discard(mutationId);
+      set((state: AppStore) => ({
+        syncQueue: state.syncQueue.filter(mutation => mutation.id !== mutationId),
+        itemConflicts: omitKey(state.itemConflicts, mutationId),
+      }));
+      await get().loadVaults();
+    },
 
-      const item = await DatabaseService.createVaultItem(vaultId, itemData, masterKey);
+    // Save the version the user picked for a conflicting edit. The local edit is kept in
+    // item_history when it lost, the other side already is since every write adds a version.
+    async resolveConflict(mutationId: string, resolved: ItemFields) {
+      const conflict = get().itemConflicts[mutationId];
+      if (!conflict) throw new Error('Conflict not found');
+      const vaultKey = getVaultKey(get, conflict.vaultId);
+
+      if (!ItemMergeService.isEqual(ItemMergeService.pick(resolved), ItemMergeService.pick(conflict.theirs))) {
+        const next = await DatabaseService.updateVaultItem(conflict.itemId, resolved, vaultKey, conflict.theirs);
+        // Changed again while the user was choosing
+        if (next) {
+          set((state: AppStore) => ({ itemConflicts: { ...state.itemConflicts, [mutationId]: next } }));
+          throw new Error('The item was changed again in the meantime. Review the latest version.');
+        }
+        logActivity(get, conflict.vaultId, 'update', { itemName: resolved.name }, conflict.itemId);
+      }
 
-      // Refresh local state
+      if (!ItemMergeService.isEqual(ItemMergeService.pick(resolved), ItemMergeService.pick(conflict.mine))) {
+        await DatabaseService.saveItemHistory(conflict.itemId, conflict.vaultId, conflict.mine, vaultKey)
+          .catch(error => console.error('Error keeping the discarded version:', error));
+      }
+
+      await SyncEngineService.discard(mutationId);
+      set((state: AppStore) => ({
+        syncQueue: state.syncQueue.filter(mutation => mutation.id !== mutationId),
+        itemConflicts: omitKey(state.itemConflicts, mutationId),
+      }));
       await get().loadVaults();
+    },
+
+    setOnline(online: boolean) {
+      set({ isOnline: online });
+      if (online) get().syncPending(true);
+    },
 
+    // Item changes are queued and applied locally first, then sent by syncPending. Errors
+    // from the server show up on the queued change rather than here.
+    async createItem(vaultId: string, itemData: Omit<VaultItem, 'id' | 'vaultId' | 'createdAt' | 'updatedAt'>) {
+      const vaultKey = getVaultKey(get, vaultId);
+
+      const now = new Date();
+      const item: VaultItem = { ...itemData, id: EncryptionService.generateUUID(), vaultId, createdAt: now, updatedAt: now };
+      await SyncEngineService.enqueueCreate(get().user!.id, item, vaultKey);
+      patchVaultItems(set, vaultId, items => [...items, item]);
+
+      get().syncPending();
       return item;
     },
 
     async updateItem(itemId: string, updates: Partial<VaultItem>) {
-      const masterKey = get().masterKey!;
+      const vault = get().vaults.find(v => v.items.some(i => i.id === itemId));
+      if (!vault) throw new Error('Item not found');
+      const vaultKey = getVaultKey(get, vault.id);
 
-      await DatabaseService.updateVaultItem(itemId, updates, masterKey);
+      const base = vault.items.find(i => i.id === itemId)!;
+      const item = { ...base, ...updates, updatedAt: new Date() };
+      await SyncEngineService.enqueueUpdate(get().user!.id, item, updates, base, vaultKey);
+      patchVaultItems(set, vault.id, items => items.map(i => i.id === itemId ? item : i));
 
-      // Refresh local state
-      await get().loadVaults();
+      get().syncPending();
     },
 
     async deleteItem(itemId: string) {
-      await DatabaseService.deleteVaultItem(itemId);
+      const vault = get().vaults.find(v => v.items.some(i => i.id === itemId));
+      if (!vault) throw new Error('Item not found');
+      const vaultKey = getVaultKey(get, vault.id);
 
-      // Refresh local state
-      await get().loadVaults();
+      await SyncEngineService.enqueueDelete(get().user!.id, vault.items.find(i => i.id === itemId)!, vaultKey);
+      patchVaultItems(set, vault.id, items => items.filter(i => i.id !== itemId));
+
+      get().syncPending();
     },
 
-    async copyToClipboard(text: string, type: 'password' | 'username') {
+    async copyToClipboard(text: string, type: 'password' | 'username', itemId?: string) {
       try {
         await navigator.clipboard.writeText(text);
+        if (itemId) get().recordItemAccess(itemId, 'copy', type);
 
         // Auto-clear after 30 seconds for passwords
         if (type === 'password') {
@@ -411,5 +1215,23 @@ function vaultUIActions(set: any, get: () => AppStore): VaultUIActions {
         console.error('Clipboard error:', error);
       }
     },
+
+    // Log a reveal or copy of an item's secrets in a shared vault
+    recordItemAccess(itemId: string, action: 'reveal' | 'copy', field: string) {
+      const vault = get().vaults.find(v => v.items.some(i => i.id === itemId));
+      if (!vault) return;
+
+      logActivity(get, vault.id, action, { itemName: vault.items.find(i => i.id === itemId)!.name, field }, itemId);
+    },
   };
 }
+
+// A password reset link signs the user in to recover the account with the recovery key
+supabase.auth.onAuthStateChange((event, session) => {
+  if (event === 'PASSWORD_RECOVERY' && session?.user) {
+    useAppStore.setState({
+      user: { id: session.user.id, email: session.user.email! },
+      recoveryMode: true,
+    });
+  }
+});
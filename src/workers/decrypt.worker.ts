@@ -0,0 +1,8 @@
+// Decrypts batches of envelopes off the main thread for CryptoWorkerPool
+import { decryptJobs, type DecryptRequest, type DecryptResponse } from '../services/cryptoWorkerPool';
+
+self.onmessage = async (event: MessageEvent<DecryptRequest>) => {
+  const { id, key, jobs } = event.data;
+  const response: DecryptResponse = { id, results: await decryptJobs(key, jobs) };
+  self.postMessage(response);
+};
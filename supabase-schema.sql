@@ -1,5 +1,6 @@
 -- HushKey Database Schema for Supabase
--- Run this SQL in your Supabase SQL editor
+-- Run this SQL in your Supabase SQL editor. It is safe to run again to upgrade an
+-- existing database.
 
 -- Enable necessary extensions
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
@@ -10,9 +11,19 @@ ALTER TABLE auth.users ADD COLUMN IF NOT EXISTS created_at TIMESTAMP WITH TIME Z
 -- User profiles for additional encryption metadata
 CREATE TABLE IF NOT EXISTS public.user_profiles (
     user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
-    public_key TEXT, -- For secure sharing (optional)
-    private_key_encrypted TEXT, -- Encrypted with master key (optional)
+    public_key TEXT, -- Base64 ECDH P-256 public key that shared vault keys are sealed to
+    private_key_encrypted TEXT, -- Matching PKCS#8 private key, wrapped under the master key
     salt TEXT NOT NULL, -- Salt used in key derivation (stored separately for better security)
+    kdf_algorithm TEXT NOT NULL DEFAULT 'pbkdf2-sha256' CHECK (kdf_algorithm IN ('pbkdf2-sha256', 'argon2id')),
+    kdf_memory INTEGER NOT NULL DEFAULT 0, -- Argon2 memory limit in bytes
+    kdf_ops INTEGER NOT NULL DEFAULT 600000, -- Argon2 ops limit or PBKDF2 iterations
+    kdf_version INTEGER NOT NULL DEFAULT 1, -- Parameter set version, older versions are upgraded on unlock
+    key_check_encrypted TEXT, -- Known value encrypted with the master key, detects wrong passwords
+    previous_key_encrypted TEXT, -- Old master key wrapped under the new one while vault keys are re-wrapped
+    auth_update_pending BOOLEAN NOT NULL DEFAULT FALSE, -- Master password changed, auth password not yet updated
+    auth_scheme TEXT NOT NULL DEFAULT 'legacy' CHECK (auth_scheme IN ('legacy', 'derived-v1')), -- What the client sends as the auth password
+    recovery_master_key_encrypted TEXT, -- Master key wrapped under the recovery key from the recovery kit
+    recovery_key_encrypted TEXT, -- Recovery key wrapped under the master key, re-wrapped on master key changes
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -21,7 +32,13 @@ CREATE TABLE IF NOT EXISTS public.user_profiles (
 CREATE TABLE IF NOT EXISTS public.vaults (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
-    name_encrypted TEXT NOT NULL,
+    name_encrypted TEXT NOT NULL, -- Encrypted with the vault key
+    manifest_encrypted TEXT, -- Item ids and revisions, encrypted with the vault key to detect tampering
+    vault_key_encrypted TEXT, -- Random per-vault key, wrapped with the owner's master key
+    pending_vault_key_encrypted TEXT, -- Next vault key while a key rotation is in progress
+    owner_key_sealed TEXT, -- Vault key sealed to a new owner after a transfer, until they wrap it with their master key
+    key_version INTEGER NOT NULL DEFAULT 1, -- Incremented on every completed key rotation
+    legacy_format_retired BOOLEAN NOT NULL DEFAULT FALSE, -- No record is left in the legacy ciphertext format, clients refuse it from then on
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -30,10 +47,11 @@ CREATE TABLE IF NOT EXISTS public.vaults (
 CREATE TABLE IF NOT EXISTS public.items (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     vault_id UUID NOT NULL REFERENCES public.vaults(id) ON DELETE CASCADE,
-    type TEXT NOT NULL CHECK (type IN ('login', 'note', 'card', 'totp')),
-    data_encrypted TEXT NOT NULL, -- Contains all item data (URL, username, password, etc.)
+    type TEXT, -- Only set on rows from before the type moved into data_encrypted
+    data_encrypted TEXT NOT NULL, -- Contains all item data (type, URL, username, password, tags, etc.)
     folder_id UUID, -- For organizing items within vaults (optional)
-    tags TEXT[], -- Array of tags for filtering
+    tags TEXT[], -- Only set on rows from before tags moved into data_encrypted
+    key_version INTEGER NOT NULL DEFAULT 1, -- Version of the vault key the last write used (see check_item_key_version)
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -46,6 +64,14 @@ CREATE TABLE IF NOT EXISTS public.item_history (
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Deleted items, so clients syncing changes since a cursor learn about deletions.
+-- Filled by a trigger on items; no foreign key, the vault may be going away as well.
+CREATE TABLE IF NOT EXISTS public.item_tombstones (
+    item_id UUID PRIMARY KEY,
+    vault_id UUID NOT NULL,
+    deleted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Folders within vaults
 CREATE TABLE IF NOT EXISTS public.folders (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -65,6 +91,20 @@ CREATE TABLE IF NOT EXISTS public.devices (
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Server half of each device's PIN unlock key. The master key wrapped on the device only
+-- opens with it, and it is released for the right PIN only, so PINs cannot be guessed
+-- offline and the attempt count lives here rather than on the device. Only reachable
+-- through register_pin_unlock and release_pin_unlock.
+CREATE TABLE IF NOT EXISTS public.pin_unlock_keys (
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    device_id TEXT NOT NULL,
+    verifier TEXT NOT NULL, -- Derived from the PIN key, proves the PIN without revealing it
+    secret TEXT NOT NULL,
+    failed_attempts INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (user_id, device_id)
+);
+
 -- Shared vaults (for collaboration features - Phase 4)
 CREATE TABLE IF NOT EXISTS public.shared_vaults (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -72,18 +112,38 @@ CREATE TABLE IF NOT EXISTS public.shared_vaults (
     owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
     shared_with_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
     permissions TEXT NOT NULL CHECK (permissions IN ('read', 'write', 'admin')),
-    shared_key_encrypted TEXT, -- Encrypted key for accessing the vault
+    shared_key_encrypted TEXT, -- Vault key sealed to the member's public key
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
--- Activity logs for shared vaults
+-- Invitations to shared vaults. The vault key is sealed to the invitee's public key
+-- when the invite is created, and copied into shared_vaults when it is accepted.
+CREATE TABLE IF NOT EXISTS public.vault_invites (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    vault_id UUID NOT NULL REFERENCES public.vaults(id) ON DELETE CASCADE,
+    inviter_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    inviter_email TEXT NOT NULL,
+    invitee_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    invitee_email TEXT NOT NULL,
+    permissions TEXT NOT NULL CHECK (permissions IN ('read', 'write', 'admin')),
+    shared_key_encrypted TEXT NOT NULL, -- Vault key sealed to the invitee's public key
+    vault_name_encrypted TEXT NOT NULL, -- Vault name sealed to the invitee, shown with the invite
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'expired', 'cancelled')),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    responded_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Activity logs for shared vaults. Entries are append-only.
 CREATE TABLE IF NOT EXISTS public.activity_logs (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-    shared_vault_id UUID REFERENCES public.shared_vaults(id) ON DELETE CASCADE,
+    shared_vault_id UUID REFERENCES public.shared_vaults(id) ON DELETE CASCADE, -- Unused, entries belong to vault_id
+    vault_id UUID REFERENCES public.vaults(id) ON DELETE CASCADE,
     user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
     action TEXT NOT NULL, -- 'create', 'update', 'delete', 'share', etc.
     item_id UUID REFERENCES public.items(id) ON DELETE SET NULL,
-    details TEXT, -- Additional context
+    details TEXT, -- Unused, see details_encrypted
+    details_encrypted TEXT, -- Item names, members and permissions, encrypted with the vault key
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -110,43 +170,116 @@ CREATE TABLE IF NOT EXISTS public.emergency_access (
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Migrations for databases created from an earlier version of this schema. They run
+-- before the policies, functions and triggers below, which may use the new columns.
+ALTER TABLE public.vaults ADD COLUMN IF NOT EXISTS vault_key_encrypted TEXT;
+ALTER TABLE public.user_profiles ADD COLUMN IF NOT EXISTS kdf_algorithm TEXT NOT NULL DEFAULT 'pbkdf2-sha256';
+ALTER TABLE public.user_profiles ADD COLUMN IF NOT EXISTS kdf_memory INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.user_profiles ADD COLUMN IF NOT EXISTS kdf_ops INTEGER NOT NULL DEFAULT 600000;
+ALTER TABLE public.user_profiles ADD COLUMN IF NOT EXISTS kdf_version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE public.user_profiles ADD COLUMN IF NOT EXISTS previous_key_encrypted TEXT;
+ALTER TABLE public.user_profiles ADD COLUMN IF NOT EXISTS auth_update_pending BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE public.user_profiles ADD COLUMN IF NOT EXISTS auth_scheme TEXT NOT NULL DEFAULT 'legacy';
+ALTER TABLE public.user_profiles ADD COLUMN IF NOT EXISTS key_check_encrypted TEXT;
+ALTER TABLE public.user_profiles ADD COLUMN IF NOT EXISTS recovery_master_key_encrypted TEXT;
+ALTER TABLE public.user_profiles ADD COLUMN IF NOT EXISTS recovery_key_encrypted TEXT;
+ALTER TABLE public.vaults ADD COLUMN IF NOT EXISTS pending_vault_key_encrypted TEXT;
+ALTER TABLE public.vaults ADD COLUMN IF NOT EXISTS key_version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE public.items ALTER COLUMN type DROP NOT NULL;
+ALTER TABLE public.items DROP CONSTRAINT IF EXISTS items_type_check;
+ALTER TABLE public.items ADD COLUMN IF NOT EXISTS key_version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE public.vaults ADD COLUMN IF NOT EXISTS manifest_encrypted TEXT;
+ALTER TABLE public.vaults ADD COLUMN IF NOT EXISTS legacy_format_retired BOOLEAN NOT NULL DEFAULT FALSE;
+DROP POLICY IF EXISTS "Owners can invite to their vaults" ON public.vault_invites;
+DROP POLICY IF EXISTS "Owners can view invites to their vaults" ON public.vault_invites;
+DROP POLICY IF EXISTS "Owners can update invites to their vaults" ON public.vault_invites;
+DROP POLICY IF EXISTS "Owners and admins can update invites to their vaults" ON public.vault_invites;
+DROP FUNCTION IF EXISTS public.get_auth_scheme(TEXT);
+ALTER TABLE public.vaults ADD COLUMN IF NOT EXISTS owner_key_sealed TEXT;
+ALTER TABLE public.activity_logs ADD COLUMN IF NOT EXISTS vault_id UUID REFERENCES public.vaults(id) ON DELETE CASCADE;
+ALTER TABLE public.activity_logs ADD COLUMN IF NOT EXISTS details_encrypted TEXT;
+
 -- Row Level Security (RLS) Policies
 -- Enable RLS on all tables
 ALTER TABLE public.user_profiles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.vaults ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.items ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.item_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.item_tombstones ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.folders ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.devices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pin_unlock_keys ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.shared_vaults ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vault_invites ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.activity_logs ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.attachments ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.emergency_access ENABLE ROW LEVEL SECURITY;
 
+-- The signed in user's access to a vault: 'owner', the permission of their share, or
+-- NULL. Only shares made by the vault's owner count. Security definer so policies on
+-- vaults and items can use it without the policies of shared_vaults and vaults
+-- recursing into each other.
+CREATE OR REPLACE FUNCTION public.vault_permission(p_vault_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN EXISTS (SELECT 1 FROM public.vaults WHERE id = p_vault_id AND user_id = auth.uid()) THEN 'owner'
+        ELSE (
+            SELECT s.permissions FROM public.shared_vaults s
+            JOIN public.vaults v ON v.id = s.vault_id AND v.user_id = s.owner_id
+            WHERE s.vault_id = p_vault_id AND s.shared_with_user_id = auth.uid()
+        )
+    END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.vault_permission(UUID) TO authenticated;
+
 -- RLS Policies for user_profiles
+DROP POLICY IF EXISTS "Users can view their own profile" ON public.user_profiles;
 CREATE POLICY "Users can view their own profile" ON public.user_profiles
     FOR SELECT USING (auth.uid() = user_id);
 
+DROP POLICY IF EXISTS "Users can update their own profile" ON public.user_profiles;
 CREATE POLICY "Users can update their own profile" ON public.user_profiles
     FOR UPDATE USING (auth.uid() = user_id);
 
+DROP POLICY IF EXISTS "Users can insert their own profile" ON public.user_profiles;
 CREATE POLICY "Users can insert their own profile" ON public.user_profiles
     FOR INSERT WITH CHECK (auth.uid() = user_id);
 
 -- RLS Policies for vaults
+DROP POLICY IF EXISTS "Users can view their own vaults" ON public.vaults;
 CREATE POLICY "Users can view their own vaults" ON public.vaults
     FOR SELECT USING (auth.uid() = user_id);
 
+DROP POLICY IF EXISTS "Users can create their own vaults" ON public.vaults;
 CREATE POLICY "Users can create their own vaults" ON public.vaults
     FOR INSERT WITH CHECK (auth.uid() = user_id);
 
+DROP POLICY IF EXISTS "Users can update their own vaults" ON public.vaults;
 CREATE POLICY "Users can update their own vaults" ON public.vaults
     FOR UPDATE USING (auth.uid() = user_id);
 
+DROP POLICY IF EXISTS "Users can delete their own vaults" ON public.vaults;
 CREATE POLICY "Users can delete their own vaults" ON public.vaults
     FOR DELETE USING (auth.uid() = user_id);
 
+-- Members read shared vaults, and members who can edit update the manifest
+-- (protect_shared_vault_columns stops them changing anything else)
+DROP POLICY IF EXISTS "Members can view shared vaults" ON public.vaults;
+CREATE POLICY "Members can view shared vaults" ON public.vaults
+    FOR SELECT USING (public.vault_permission(id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Members can update manifests of shared vaults" ON public.vaults;
+CREATE POLICY "Members can update manifests of shared vaults" ON public.vaults
+    FOR UPDATE USING (public.vault_permission(id) IN ('write', 'admin'));
+
 -- RLS Policies for items (vaults are encrypted, so we rely on vault ownership)
+DROP POLICY IF EXISTS "Users can view items in their vaults" ON public.items;
 CREATE POLICY "Users can view items in their vaults" ON public.items
     FOR SELECT USING (
         EXISTS (
@@ -156,6 +289,7 @@ CREATE POLICY "Users can view items in their vaults" ON public.items
         )
     );
 
+DROP POLICY IF EXISTS "Users can create items in their vaults" ON public.items;
 CREATE POLICY "Users can create items in their vaults" ON public.items
     FOR INSERT WITH CHECK (
         EXISTS (
@@ -165,6 +299,7 @@ CREATE POLICY "Users can create items in their vaults" ON public.items
         )
     );
 
+DROP POLICY IF EXISTS "Users can update items in their vaults" ON public.items;
 CREATE POLICY "Users can update items in their vaults" ON public.items
     FOR UPDATE USING (
         EXISTS (
@@ -174,6 +309,7 @@ CREATE POLICY "Users can update items in their vaults" ON public.items
         )
     );
 
+DROP POLICY IF EXISTS "Users can delete items in their vaults" ON public.items;
 CREATE POLICY "Users can delete items in their vaults" ON public.items
     FOR DELETE USING (
         EXISTS (
@@ -183,22 +319,510 @@ CREATE POLICY "Users can delete items in their vaults" ON public.items
         )
     );
 
--- Similar RLS policies for shared vaults (Phase 4)
--- For now, only basic policies are implemented
+-- Items in shared vaults: every member reads, write and admin members edit
+DROP POLICY IF EXISTS "Members can view items in shared vaults" ON public.items;
+CREATE POLICY "Members can view items in shared vaults" ON public.items
+    FOR SELECT USING (public.vault_permission(vault_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Members can create items in shared vaults" ON public.items;
+CREATE POLICY "Members can create items in shared vaults" ON public.items
+    FOR INSERT WITH CHECK (public.vault_permission(vault_id) IN ('write', 'admin'));
+
+DROP POLICY IF EXISTS "Members can update items in shared vaults" ON public.items;
+CREATE POLICY "Members can update items in shared vaults" ON public.items
+    FOR UPDATE USING (public.vault_permission(vault_id) IN ('write', 'admin'))
+    WITH CHECK (public.vault_permission(vault_id) IN ('write', 'admin'));
+
+DROP POLICY IF EXISTS "Members can delete items in shared vaults" ON public.items;
+CREATE POLICY "Members can delete items in shared vaults" ON public.items
+    FOR DELETE USING (public.vault_permission(vault_id) IN ('write', 'admin'));
+
+-- RLS Policies for item_history (through the item's vault)
+DROP POLICY IF EXISTS "Users can view history of items in their vaults" ON public.item_history;
+CREATE POLICY "Users can view history of items in their vaults" ON public.item_history
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.items
+            JOIN public.vaults ON vaults.id = items.vault_id
+            WHERE items.id = item_history.item_id
+            AND vaults.user_id = auth.uid()
+        )
+    );
+
+DROP POLICY IF EXISTS "Users can create history of items in their vaults" ON public.item_history;
+CREATE POLICY "Users can create history of items in their vaults" ON public.item_history
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.items
+            JOIN public.vaults ON vaults.id = items.vault_id
+            WHERE items.id = item_history.item_id
+            AND vaults.user_id = auth.uid()
+        )
+    );
+
+DROP POLICY IF EXISTS "Users can update history of items in their vaults" ON public.item_history;
+CREATE POLICY "Users can update history of items in their vaults" ON public.item_history
+    FOR UPDATE USING (
+        EXISTS (
+            SELECT 1 FROM public.items
+            JOIN public.vaults ON vaults.id = items.vault_id
+            WHERE items.id = item_history.item_id
+            AND vaults.user_id = auth.uid()
+        )
+    );
+
+DROP POLICY IF EXISTS "Members can view history of items in shared vaults" ON public.item_history;
+CREATE POLICY "Members can view history of items in shared vaults" ON public.item_history
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.items
+            WHERE items.id = item_history.item_id
+            AND public.vault_permission(items.vault_id) IS NOT NULL
+        )
+    );
+
+DROP POLICY IF EXISTS "Members can create history of items in shared vaults" ON public.item_history;
+CREATE POLICY "Members can create history of items in shared vaults" ON public.item_history
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.items
+            WHERE items.id = item_history.item_id
+            AND public.vault_permission(items.vault_id) IN ('write', 'admin')
+        )
+    );
+
+DROP POLICY IF EXISTS "Members can update history of items in shared vaults" ON public.item_history;
+CREATE POLICY "Members can update history of items in shared vaults" ON public.item_history
+    FOR UPDATE USING (
+        EXISTS (
+            SELECT 1 FROM public.items
+            WHERE items.id = item_history.item_id
+            AND public.vault_permission(items.vault_id) IN ('write', 'admin')
+        )
+    );
+
+-- RLS Policies for shared_vaults
+DROP POLICY IF EXISTS "Owners can manage shares of their vaults" ON public.shared_vaults;
+CREATE POLICY "Owners can manage shares of their vaults" ON public.shared_vaults
+    FOR ALL USING (auth.uid() = owner_id)
+    WITH CHECK (
+        auth.uid() = owner_id
+        AND EXISTS (SELECT 1 FROM public.vaults WHERE id = vault_id AND user_id = auth.uid())
+    );
+
+DROP POLICY IF EXISTS "Members can view their shares" ON public.shared_vaults;
+CREATE POLICY "Members can view their shares" ON public.shared_vaults
+    FOR SELECT USING (auth.uid() = shared_with_user_id);
+
+DROP POLICY IF EXISTS "Admins can view members of their vaults" ON public.shared_vaults;
+CREATE POLICY "Admins can view members of their vaults" ON public.shared_vaults
+    FOR SELECT USING (public.vault_permission(vault_id) = 'admin');
+
+-- Admins change permissions only (protect_share_columns stops them changing anything else)
+DROP POLICY IF EXISTS "Admins can update members of their vaults" ON public.shared_vaults;
+CREATE POLICY "Admins can update members of their vaults" ON public.shared_vaults
+    FOR UPDATE USING (public.vault_permission(vault_id) = 'admin')
+    WITH CHECK (public.vault_permission(vault_id) = 'admin');
+
+DROP POLICY IF EXISTS "Admins can remove members of their vaults" ON public.shared_vaults;
+CREATE POLICY "Admins can remove members of their vaults" ON public.shared_vaults
+    FOR DELETE USING (public.vault_permission(vault_id) = 'admin');
+
+-- RLS Policies for vault_invites. Invites are accepted through accept_vault_invite.
+DROP POLICY IF EXISTS "Owners and admins can view invites to their vaults" ON public.vault_invites;
+CREATE POLICY "Owners and admins can view invites to their vaults" ON public.vault_invites
+    FOR SELECT USING (auth.uid() = inviter_id OR public.vault_permission(vault_id) IN ('owner', 'admin'));
+
+DROP POLICY IF EXISTS "Owners and admins can invite to their vaults" ON public.vault_invites;
+CREATE POLICY "Owners and admins can invite to their vaults" ON public.vault_invites
+    FOR INSERT WITH CHECK (
+        auth.uid() = inviter_id
+        AND status = 'pending'
+        AND public.vault_permission(vault_id) IN ('owner', 'admin')
+    );
+
+-- Owners and admins can only close pending invites; resealing one goes through reseal_vault_invite
+DROP POLICY IF EXISTS "Owners and admins can cancel invites to their vaults" ON public.vault_invites;
+CREATE POLICY "Owners and admins can cancel invites to their vaults" ON public.vault_invites
+    FOR UPDATE USING (status = 'pending' AND public.vault_permission(vault_id) IN ('owner', 'admin'))
+    WITH CHECK (
+        public.vault_permission(vault_id) IN ('owner', 'admin')
+        AND (status = 'cancelled' OR (status = 'expired' AND expires_at < NOW()))
+    );
+
+DROP POLICY IF EXISTS "Invitees can view their invites" ON public.vault_invites;
+CREATE POLICY "Invitees can view their invites" ON public.vault_invites
+    FOR SELECT USING (auth.uid() = invitee_id);
+
+DROP POLICY IF EXISTS "Invitees can decline their invites" ON public.vault_invites;
+CREATE POLICY "Invitees can decline their invites" ON public.vault_invites
+    FOR UPDATE USING (auth.uid() = invitee_id AND status = 'pending')
+    WITH CHECK (status IN ('declined', 'expired'));
+
+-- RLS Policies for activity_logs. Every member reads and appends.
+DROP POLICY IF EXISTS "Members can view activity of their vaults" ON public.activity_logs;
+CREATE POLICY "Members can view activity of their vaults" ON public.activity_logs
+    FOR SELECT USING (public.vault_permission(vault_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Members can log activity in their vaults" ON public.activity_logs;
+CREATE POLICY "Members can log activity in their vaults" ON public.activity_logs
+    FOR INSERT WITH CHECK (auth.uid() = user_id AND public.vault_permission(vault_id) IS NOT NULL);
+
+-- Only for re-encrypting details when the owner rotates the vault key
+DROP POLICY IF EXISTS "Owners can re-encrypt activity of their vaults" ON public.activity_logs;
+CREATE POLICY "Owners can re-encrypt activity of their vaults" ON public.activity_logs
+    FOR UPDATE USING (public.vault_permission(vault_id) = 'owner');
+
+-- RLS Policies for item_tombstones (written only by the trigger on items)
+DROP POLICY IF EXISTS "Users can view deletions in vaults they can access" ON public.item_tombstones;
+CREATE POLICY "Users can view deletions in vaults they can access" ON public.item_tombstones
+    FOR SELECT USING (public.vault_permission(vault_id) IS NOT NULL);
 
 -- RLS Policies for devices
+DROP POLICY IF EXISTS "Users can view their own devices" ON public.devices;
 CREATE POLICY "Users can view their own devices" ON public.devices
     FOR SELECT USING (auth.uid() = user_id);
 
+DROP POLICY IF EXISTS "Users can manage their own devices" ON public.devices;
 CREATE POLICY "Users can manage their own devices" ON public.devices
     FOR ALL USING (auth.uid() = user_id);
 
+-- RLS Policies for PIN unlock keys. Secrets are never readable, removing a PIN is allowed.
+DROP POLICY IF EXISTS "Users can remove their PIN unlock keys" ON public.pin_unlock_keys;
+CREATE POLICY "Users can remove their PIN unlock keys" ON public.pin_unlock_keys
+    FOR DELETE USING (auth.uid() = user_id);
+
 -- Create indexes for better performance
 CREATE INDEX IF NOT EXISTS vaults_user_id_idx ON public.vaults(user_id);
 CREATE INDEX IF NOT EXISTS items_vault_id_idx ON public.items(vault_id);
+CREATE INDEX IF NOT EXISTS items_vault_updated_idx ON public.items(vault_id, updated_at);
+CREATE INDEX IF NOT EXISTS item_tombstones_vault_id_idx ON public.item_tombstones(vault_id, deleted_at);
+CREATE INDEX IF NOT EXISTS item_history_item_id_idx ON public.item_history(item_id);
 CREATE INDEX IF NOT EXISTS folders_vault_id_idx ON public.folders(vault_id);
 CREATE INDEX IF NOT EXISTS devices_user_id_idx ON public.devices(user_id);
 CREATE INDEX IF NOT EXISTS shared_vaults_vault_id_idx ON public.shared_vaults(vault_id);
+CREATE UNIQUE INDEX IF NOT EXISTS shared_vaults_member_idx ON public.shared_vaults(vault_id, shared_with_user_id);
+CREATE INDEX IF NOT EXISTS vault_invites_vault_id_idx ON public.vault_invites(vault_id);
+CREATE INDEX IF NOT EXISTS vault_invites_invitee_id_idx ON public.vault_invites(invitee_id);
+CREATE INDEX IF NOT EXISTS activity_logs_vault_id_idx ON public.activity_logs(vault_id, created_at DESC);
+
+-- Public keys of other users, to wrap vault keys for them. Profiles are otherwise only
+-- readable by their owner.
+CREATE OR REPLACE FUNCTION public.get_public_keys(p_user_ids UUID[])
+RETURNS TABLE (user_id UUID, public_key TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT p.user_id, p.public_key
+    FROM public.user_profiles p
+    WHERE p.user_id = ANY(p_user_ids);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_public_keys(UUID[]) TO authenticated;
+
+-- Find the account and public key to invite by email. Only returns accounts that
+-- have a sharing keypair.
+CREATE OR REPLACE FUNCTION public.get_sharing_recipient(p_email TEXT)
+RETURNS TABLE (user_id UUID, public_key TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT u.id, p.public_key
+    FROM auth.users u
+    JOIN public.user_profiles p ON p.user_id = u.id
+    WHERE lower(u.email) = lower(p_email)
+    AND p.public_key IS NOT NULL
+    LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_sharing_recipient(TEXT) TO authenticated;
+
+-- Accept a pending invite: the invitee joins the vault with the sealed key from the
+-- invite, and the invite is closed, in one transaction
+CREATE OR REPLACE FUNCTION public.accept_vault_invite(p_invite_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_invite public.vault_invites;
+    v_share_id UUID;
+BEGIN
+    SELECT * INTO v_invite FROM public.vault_invites
+    WHERE id = p_invite_id AND invitee_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invitation not found';
+    END IF;
+    IF v_invite.status <> 'pending' THEN
+        RAISE EXCEPTION 'Invitation has already been %', v_invite.status;
+    END IF;
+    IF v_invite.expires_at < NOW() THEN
+        RAISE EXCEPTION 'Invitation has expired';
+    END IF;
+
+    -- The inviter must still own or administer the vault, an admin who was removed or
+    -- demoted since sending the invite cannot let anyone in any more
+    IF NOT EXISTS (
+        SELECT 1 FROM public.vaults
+        WHERE id = v_invite.vault_id AND user_id = v_invite.inviter_id
+    ) AND NOT EXISTS (
+        SELECT 1 FROM public.shared_vaults
+        WHERE vault_id = v_invite.vault_id
+        AND shared_with_user_id = v_invite.inviter_id
+        AND permissions = 'admin'
+    ) THEN
+        RAISE EXCEPTION 'The inviter no longer has access to this vault';
+    END IF;
+
+    -- Admins invite too, the share always belongs to the vault's owner
+    INSERT INTO public.shared_vaults (vault_id, owner_id, shared_with_user_id, permissions, shared_key_encrypted)
+    SELECT v_invite.vault_id, vaults.user_id, v_invite.invitee_id, v_invite.permissions, v_invite.shared_key_encrypted
+    FROM public.vaults
+    WHERE vaults.id = v_invite.vault_id
+    RETURNING id INTO v_share_id;
+
+    UPDATE public.vault_invites SET status = 'accepted', responded_at = NOW() WHERE id = p_invite_id;
+
+    RETURN v_share_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.accept_vault_invite(UUID) TO authenticated;
+
+-- Seal a rotated vault key into a pending invite. The only change allowed to an invite
+-- besides closing it.
+CREATE OR REPLACE FUNCTION public.reseal_vault_invite(p_invite_id UUID, p_shared_key_encrypted TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_vault_id UUID;
+BEGIN
+    SELECT vault_id INTO v_vault_id FROM public.vault_invites
+    WHERE id = p_invite_id AND status = 'pending'
+    FOR UPDATE;
+
+    IF NOT FOUND OR COALESCE(public.vault_permission(v_vault_id), '') NOT IN ('owner', 'admin') THEN
+        RAISE EXCEPTION 'Invitation not found';
+    END IF;
+
+    UPDATE public.vault_invites SET shared_key_encrypted = p_shared_key_encrypted WHERE id = p_invite_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reseal_vault_invite(UUID, TEXT) TO authenticated;
+
+-- Store the server half of a device's PIN unlock key, replacing an earlier PIN
+CREATE OR REPLACE FUNCTION public.register_pin_unlock(p_device_id TEXT, p_verifier TEXT, p_secret TEXT)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    INSERT INTO public.pin_unlock_keys (user_id, device_id, verifier, secret)
+    VALUES (auth.uid(), p_device_id, p_verifier, p_secret)
+    ON CONFLICT (user_id, device_id) DO UPDATE
+    SET verifier = EXCLUDED.verifier, secret = EXCLUDED.secret, failed_attempts = 0, created_at = NOW();
+$$;
+
+GRANT EXECUTE ON FUNCTION public.register_pin_unlock(TEXT, TEXT, TEXT) TO authenticated;
+
+-- Release the server half of a PIN unlock key for the right PIN. Wrong PINs are counted
+-- and the key is deleted after 5, which leaves the master password as the only way in.
+-- Returns no secret and the attempts left for a wrong PIN, and neither when the device
+-- has no key. Does not raise, so a counted attempt is never rolled back.
+CREATE OR REPLACE FUNCTION public.release_pin_unlock(p_device_id TEXT, p_verifier TEXT)
+RETURNS TABLE (pin_secret TEXT, attempts_left INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_key public.pin_unlock_keys%ROWTYPE;
+BEGIN
+    SELECT * INTO v_key FROM public.pin_unlock_keys k
+    WHERE k.user_id = auth.uid() AND k.device_id = p_device_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT NULL::TEXT, NULL::INTEGER;
+    ELSIF v_key.verifier = p_verifier THEN
+        UPDATE public.pin_unlock_keys k SET failed_attempts = 0
+        WHERE k.user_id = v_key.user_id AND k.device_id = v_key.device_id;
+        RETURN QUERY SELECT v_key.secret, 5;
+    ELSIF v_key.failed_attempts + 1 >= 5 THEN
+        DELETE FROM public.pin_unlock_keys k
+        WHERE k.user_id = v_key.user_id AND k.device_id = v_key.device_id;
+        RETURN QUERY SELECT NULL::TEXT, 0;
+    ELSE
+        UPDATE public.pin_unlock_keys k SET failed_attempts = v_key.failed_attempts + 1
+        WHERE k.user_id = v_key.user_id AND k.device_id = v_key.device_id;
+        RETURN QUERY SELECT NULL::TEXT, 4 - v_key.failed_attempts;
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.release_pin_unlock(TEXT, TEXT) TO authenticated;
+
+-- Emails of the owners of vaults shared with the signed in user
+CREATE OR REPLACE FUNCTION public.get_shared_vault_owners()
+RETURNS TABLE (vault_id UUID, owner_id UUID, owner_email TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT s.vault_id, s.owner_id, u.email
+    FROM public.shared_vaults s
+    JOIN auth.users u ON u.id = s.owner_id
+    WHERE s.shared_with_user_id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_shared_vault_owners() TO authenticated;
+
+-- Members of a vault with their emails, for its owner and admins
+CREATE OR REPLACE FUNCTION public.get_vault_members(p_vault_id UUID)
+RETURNS TABLE (share_id UUID, user_id UUID, email TEXT, permissions TEXT, created_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT s.id, s.shared_with_user_id, u.email, s.permissions, s.created_at
+    FROM public.shared_vaults s
+    JOIN auth.users u ON u.id = s.shared_with_user_id
+    WHERE s.vault_id = p_vault_id
+    AND public.vault_permission(p_vault_id) IN ('owner', 'admin')
+    ORDER BY s.created_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_vault_members(UUID) TO authenticated;
+
+-- Activity of a vault, newest first, with the email of whoever acted. Emails come
+-- from auth.users so a member cannot pass off their entries as someone else's.
+CREATE OR REPLACE FUNCTION public.get_vault_activity(p_vault_id UUID, p_limit INTEGER DEFAULT 1000)
+RETURNS TABLE (
+    id UUID,
+    user_id UUID,
+    email TEXT,
+    action TEXT,
+    item_id UUID,
+    details_encrypted TEXT,
+    created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT a.id, a.user_id, u.email, a.action, a.item_id, a.details_encrypted, a.created_at
+    FROM public.activity_logs a
+    JOIN auth.users u ON u.id = a.user_id
+    WHERE a.vault_id = p_vault_id
+    AND public.vault_permission(p_vault_id) IS NOT NULL
+    ORDER BY a.created_at DESC
+    LIMIT p_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_vault_activity(UUID, INTEGER) TO authenticated;
+
+-- Hand a vault to one of its members. Their sealed vault key moves to owner_key_sealed
+-- until they wrap it with their master key, and the previous owner stays on as an
+-- admin with the key they sealed to themselves.
+CREATE OR REPLACE FUNCTION public.transfer_vault_ownership(p_vault_id UUID, p_new_owner_id UUID, p_previous_owner_key TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_vault public.vaults;
+    v_share public.shared_vaults;
+BEGIN
+    SELECT * INTO v_vault FROM public.vaults
+    WHERE id = p_vault_id AND user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Only the owner can transfer this vault';
+    END IF;
+    IF v_vault.pending_vault_key_encrypted IS NOT NULL THEN
+        RAISE EXCEPTION 'Wait for the vault key rotation to finish';
+    END IF;
+
+    SELECT * INTO v_share FROM public.shared_vaults
+    WHERE vault_id = p_vault_id AND shared_with_user_id = p_new_owner_id;
+
+    IF NOT FOUND OR v_share.shared_key_encrypted IS NULL THEN
+        RAISE EXCEPTION 'The new owner must be a member of the vault';
+    END IF;
+
+    UPDATE public.vaults
+    SET user_id = p_new_owner_id, vault_key_encrypted = NULL, owner_key_sealed = v_share.shared_key_encrypted
+    WHERE id = p_vault_id;
+
+    DELETE FROM public.shared_vaults WHERE id = v_share.id;
+    UPDATE public.shared_vaults SET owner_id = p_new_owner_id WHERE vault_id = p_vault_id;
+    INSERT INTO public.shared_vaults (vault_id, owner_id, shared_with_user_id, permissions, shared_key_encrypted)
+    VALUES (p_vault_id, p_new_owner_id, auth.uid(), 'admin', p_previous_owner_key);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.transfer_vault_ownership(UUID, UUID, TEXT) TO authenticated;
+
+-- Members may update a shared vault only to record item changes in its manifest.
+-- The name, keys and owner stay under the owner's control. A vault that refuses the
+-- legacy ciphertext format never accepts it again, whoever asks.
+CREATE OR REPLACE FUNCTION public.protect_shared_vault_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF auth.uid() IS DISTINCT FROM OLD.user_id AND (
+        NEW.user_id IS DISTINCT FROM OLD.user_id
+        OR NEW.name_encrypted IS DISTINCT FROM OLD.name_encrypted
+        OR NEW.vault_key_encrypted IS DISTINCT FROM OLD.vault_key_encrypted
+        OR NEW.pending_vault_key_encrypted IS DISTINCT FROM OLD.pending_vault_key_encrypted
+        OR NEW.owner_key_sealed IS DISTINCT FROM OLD.owner_key_sealed
+        OR NEW.key_version IS DISTINCT FROM OLD.key_version
+        OR NEW.legacy_format_retired IS DISTINCT FROM OLD.legacy_format_retired
+    ) THEN
+        RAISE EXCEPTION 'Only the owner can change this vault';
+    END IF;
+    IF OLD.legacy_format_retired AND NOT NEW.legacy_format_retired THEN
+        RAISE EXCEPTION 'The legacy ciphertext format cannot be allowed again';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+-- Only the owner who shared a vault may change more of a share than its permissions.
+-- Admins cannot move shares to other vaults or users, or take over as owner.
+CREATE OR REPLACE FUNCTION public.protect_share_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF auth.uid() IS DISTINCT FROM OLD.owner_id AND (
+        NEW.vault_id IS DISTINCT FROM OLD.vault_id
+        OR NEW.owner_id IS DISTINCT FROM OLD.owner_id
+        OR NEW.shared_with_user_id IS DISTINCT FROM OLD.shared_with_user_id
+        OR NEW.shared_key_encrypted IS DISTINCT FROM OLD.shared_key_encrypted
+    ) THEN
+        RAISE EXCEPTION 'Only the owner can change this share';
+    END IF;
+    RETURN NEW;
+END;
+$$;
 
 -- Create function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -210,11 +834,82 @@ END;
 $$ language 'plpgsql';
 
 -- Add triggers for updated_at
-CREATE TRIGGER update_user_profiles_updated_at BEFORE UPDATE ON public.user_profiles
+CREATE OR REPLACE TRIGGER update_user_profiles_updated_at BEFORE UPDATE ON public.user_profiles
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
-CREATE TRIGGER update_vaults_updated_at BEFORE UPDATE ON public.vaults
+CREATE OR REPLACE TRIGGER update_vaults_updated_at BEFORE UPDATE ON public.vaults
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
-CREATE TRIGGER update_items_updated_at BEFORE UPDATE ON public.items
+CREATE OR REPLACE TRIGGER protect_shared_vault_columns BEFORE UPDATE ON public.vaults
+    FOR EACH ROW EXECUTE FUNCTION public.protect_shared_vault_columns();
+
+CREATE OR REPLACE TRIGGER protect_share_columns BEFORE UPDATE ON public.shared_vaults
+    FOR EACH ROW EXECUTE FUNCTION public.protect_share_columns();
+
+CREATE OR REPLACE TRIGGER update_items_updated_at BEFORE UPDATE ON public.items
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Leave a tombstone for every deleted item. Security definer, members cannot write
+-- tombstones themselves. Clients do a full load when their cursor is older than 30
+-- days, so older tombstones can be pruned.
+CREATE OR REPLACE FUNCTION public.record_item_tombstone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.item_tombstones (item_id, vault_id, deleted_at)
+    VALUES (OLD.id, OLD.vault_id, NOW())
+    ON CONFLICT (item_id) DO UPDATE SET vault_id = EXCLUDED.vault_id, deleted_at = EXCLUDED.deleted_at;
+    RETURN OLD;
+END;
+$$;
+
+CREATE OR REPLACE TRIGGER record_item_tombstone AFTER DELETE ON public.items
+    FOR EACH ROW EXECUTE FUNCTION public.record_item_tombstone();
+
+-- Items are only written under the vault's current key: its key_version, or the next
+-- one while a key rotation is re-encrypting the vault. A client still on the old key
+-- is refused, also during the rotation, so nothing is left behind under the old key
+-- once it completes. The vault row is locked so a rotation cannot start or finish
+-- while a write is checked.
+CREATE OR REPLACE FUNCTION public.check_item_key_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_vault public.vaults;
+BEGIN
+    SELECT * INTO v_vault FROM public.vaults WHERE id = NEW.vault_id FOR SHARE;
+
+    IF v_vault.pending_vault_key_encrypted IS NULL AND NEW.key_version = v_vault.key_version THEN
+        RETURN NEW;
+    END IF;
+    IF v_vault.pending_vault_key_encrypted IS NOT NULL AND NEW.key_version = v_vault.key_version + 1 THEN
+        RETURN NEW;
+    END IF;
+
+    RAISE EXCEPTION 'The vault key has changed. Reload the vault and try again.';
+END;
+$$;
+
+CREATE OR REPLACE TRIGGER check_item_key_version BEFORE INSERT OR UPDATE OF data_encrypted, key_version ON public.items
+    FOR EACH ROW EXECUTE FUNCTION public.check_item_key_version();
+
+-- Realtime: unlocked clients follow vault, item and tombstone changes (see
+-- RealtimeSyncService). Events are only sent to users the policies above let read the row.
+DO $$
+DECLARE
+    t TEXT;
+BEGIN
+    FOREACH t IN ARRAY ARRAY['vaults', 'items', 'item_tombstones'] LOOP
+        BEGIN
+            EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', t);
+        EXCEPTION WHEN duplicate_object THEN
+            NULL;
+        END;
+    END LOOP;
+END $$;